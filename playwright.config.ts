@@ -47,7 +47,14 @@ export default defineConfig<WorkerOptions>({
     {
       name: 'default-trace',
       use: {
-        showTrace: true,
+        showTrace: 'spawn',
+      }
+    },
+    {
+      name: 'default-trace-embedded',
+      testMatch: 'trace-viewer.spec.ts',
+      use: {
+        showTrace: 'embedded',
       }
     },
   ]
@@ -149,7 +149,7 @@ const brightAnsiColors: Record<number, string> = {
   7: '#fff',
 };
 
-function escapeHTML(text: string): string {
+export function escapeHTML(text: string): string {
   return text.replace(/[&"<> \n]/g, c => ({
     ' ': '&nbsp;',
     '\n': '\n<br>\n',
@@ -0,0 +1,181 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { findAriaSnapshotArgument } from './babelHighlightUtil';
+import { DisposableBase } from './disposableBase';
+import * as reporterTypes from './upstream/reporter';
+import { stripAnsi, uriToPath } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+const kScheme = 'pw-aria-snapshot';
+
+type AriaSnapshotMismatch = {
+  id: string;
+  testId: string;
+  testTitle: string;
+  file: string;
+  location: reporterTypes.Location;
+  expected: string;
+  received: string;
+};
+
+/**
+ * Keeps failed `toMatchAriaSnapshot` assertions of the last run, shows them in a diff editor
+ * and offers a code action that replaces the expected template with the received snapshot.
+ */
+export class AriaSnapshotDiff extends DisposableBase implements vscodeTypes.CodeActionProvider, vscodeTypes.TextDocumentContentProvider {
+  private _vscode: vscodeTypes.VSCode;
+  private _mismatches = new Map<string, AriaSnapshotMismatch>();
+  private _lastId = 0;
+
+  constructor(vscode: vscodeTypes.VSCode) {
+    super();
+    this._vscode = vscode;
+    const selector = ['javascript', 'javascriptreact', 'typescript', 'typescriptreact'].map(language => ({ language, scheme: 'file' }));
+    this._disposables = [
+      vscode.workspace.registerTextDocumentContentProvider(kScheme, this),
+      vscode.languages.registerCodeActionsProvider(selector, this, { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }),
+    ];
+  }
+
+  testEnded(test: reporterTypes.TestCase, result: reporterTypes.TestResult) {
+    for (const [id, mismatch] of this._mismatches) {
+      if (mismatch.testId === test.id)
+        this._mismatches.delete(id);
+    }
+    for (const error of result.errors) {
+      if (!error.location || !error.message)
+        continue;
+      const snapshots = parseAriaSnapshotDiff(error.message);
+      if (!snapshots)
+        continue;
+      const id = String(++this._lastId);
+      this._mismatches.set(id, {
+        id,
+        testId: test.id,
+        testTitle: test.title,
+        file: uriToPath(this._vscode.Uri.file(error.location.file)),
+        location: error.location,
+        ...snapshots,
+      });
+    }
+  }
+
+  provideTextDocumentContent(uri: vscodeTypes.Uri): string {
+    const [, id, side] = uri.path.split('/');
+    const mismatch = this._mismatches.get(id);
+    if (!mismatch)
+      return '';
+    return side === 'expected.yml' ? mismatch.expected : mismatch.received;
+  }
+
+  provideCodeActions(document: vscodeTypes.TextDocument, range: vscodeTypes.Range | vscodeTypes.Selection): vscodeTypes.CodeAction[] {
+    const file = uriToPath(document.uri);
+    const result: vscodeTypes.CodeAction[] = [];
+    for (const mismatch of this._mismatches.values()) {
+      const line = mismatch.location.line - 1;
+      if (mismatch.file !== file || line < range.start.line || line > range.end.line)
+        continue;
+
+      const showDiff = new this._vscode.CodeAction(this._vscode.l10n.t('Show aria snapshot diff'), this._vscode.CodeActionKind.QuickFix);
+      showDiff.command = {
+        title: showDiff.title,
+        command: 'pw.extension.command.showAriaSnapshotDiff',
+        arguments: [mismatch.id],
+      };
+      result.push(showDiff);
+
+      const argument = findAriaSnapshotArgument(document.getText(), file, mismatch.location);
+      if (!argument)
+        continue;
+      const indent = document.lineAt(line).text.match(/^\s*/)![0];
+      const accept = new this._vscode.CodeAction(this._vscode.l10n.t('Accept received aria snapshot'), this._vscode.CodeActionKind.QuickFix);
+      accept.edit = new this._vscode.WorkspaceEdit();
+      accept.edit.replace(document.uri, new this._vscode.Range(argument.start.line - 1, argument.start.column - 1, argument.end.line - 1, argument.end.column - 1), formatTemplate(mismatch.received, indent));
+      // Runs after the edit is applied, the expected snapshot no longer mismatches.
+      accept.command = {
+        title: accept.title,
+        command: 'pw.extension.command.acceptedAriaSnapshot',
+        arguments: [mismatch.id],
+      };
+      accept.isPreferred = true;
+      result.push(accept);
+    }
+    return result;
+  }
+
+  accepted(id: string) {
+    this._mismatches.delete(id);
+  }
+
+  async showDiff(id: string) {
+    const mismatch = this._mismatches.get(id);
+    if (!mismatch)
+      return;
+    const expected = this._vscode.Uri.parse(`${kScheme}:/${id}/expected.yml`);
+    const received = this._vscode.Uri.parse(`${kScheme}:/${id}/received.yml`);
+    const title = this._vscode.l10n.t('{0}: Expected ↔ Received', mismatch.testTitle);
+    await this._vscode.commands.executeCommand('vscode.diff', expected, received, title);
+  }
+}
+
+export function parseAriaSnapshotDiff(message: string): { expected: string, received: string } | undefined {
+  const lines = stripAnsi(message).split('\n');
+  if (!lines[0].includes('.toMatchAriaSnapshot('))
+    return;
+
+  // Multi-line snapshots are printed as a unified diff.
+  const diffStart = lines.findIndex(line => line.startsWith('- Expected'));
+  if (diffStart !== -1 && lines[diffStart + 1]?.startsWith('+ Received')) {
+    const expected: string[] = [];
+    const received: string[] = [];
+    for (const line of lines.slice(diffStart + 3)) {
+      if (!line)
+        break;
+      const text = line.substring(2);
+      if (line.startsWith('- ')) {
+        expected.push(text);
+      } else if (line.startsWith('+ ')) {
+        received.push(text);
+      } else {
+        expected.push(text);
+        received.push(text);
+      }
+    }
+    return { expected: expected.join('\n'), received: received.join('\n') };
+  }
+
+  // Single-line snapshots are printed as quoted strings.
+  const expectedLine = lines.find(line => line.startsWith('Expected: "'));
+  const receivedLine = lines.find(line => line.startsWith('Received: "'));
+  if (!expectedLine || !receivedLine)
+    return;
+  try {
+    return {
+      expected: JSON.parse(expectedLine.substring('Expected: '.length)),
+      received: JSON.parse(receivedLine.substring('Received: '.length)),
+    };
+  } catch {
+    return;
+  }
+}
+
+// Matches the layout Playwright uses when it rebaselines aria snapshots in the source.
+function formatTemplate(snapshot: string, indent: string): string {
+  const escaped = snapshot.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  const lines = escaped.split('\n').map(line => `${indent}  ${line}`);
+  return ['`', ...lines, `${indent}\``].join('\n');
+}
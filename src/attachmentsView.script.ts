@@ -0,0 +1,73 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { vscode } from './common';
+
+type AttachmentEntry = {
+  name: string;
+  contentType: string;
+  path?: string;
+  src?: string;
+  text?: string;
+};
+
+const emptyElement = document.getElementById('empty')!;
+const noAttachmentsElement = document.getElementById('noAttachments')!;
+const attachmentsElement = document.getElementById('attachments')!;
+const attachmentTemplate = document.getElementById('attachmentTemplate') as HTMLTemplateElement;
+
+function renderAttachment(attachment: AttachmentEntry, index: number): HTMLElement {
+  const element = (attachmentTemplate.content.cloneNode(true) as DocumentFragment).firstElementChild as HTMLElement;
+  const name = element.querySelector('.attachment-name')!;
+  name.textContent = attachment.name;
+  name.setAttribute('title', attachment.contentType);
+
+  const openAction = element.querySelector('.open-attachment')!;
+  openAction.addEventListener('click', () => vscode.postMessage({ method: 'open', params: { index } }));
+  const copyPathAction = element.querySelector('.copy-attachment-path') as HTMLElement;
+  if (attachment.path)
+    copyPathAction.addEventListener('click', () => vscode.postMessage({ method: 'copyPath', params: { index } }));
+  else
+    copyPathAction.hidden = true;
+
+  if (attachment.src && attachment.contentType.startsWith('image/')) {
+    const image = document.createElement('img');
+    image.src = attachment.src;
+    image.alt = attachment.name;
+    element.appendChild(image);
+  } else if (attachment.src) {
+    const video = document.createElement('video');
+    video.src = attachment.src;
+    video.controls = true;
+    element.appendChild(video);
+  } else if (attachment.text !== undefined) {
+    const text = document.createElement('pre');
+    text.textContent = attachment.text;
+    element.appendChild(text);
+  }
+  return element;
+}
+
+window.addEventListener('message', event => {
+  const { method, params } = event.data;
+  if (method === 'attachments') {
+    const attachments: AttachmentEntry[] = params.attachments;
+    emptyElement.hidden = !!params.title;
+    noAttachmentsElement.hidden = !params.title || !!attachments.length;
+    attachmentsElement.textContent = '';
+    attachments.forEach((attachment, index) => attachmentsElement.appendChild(renderAttachment(attachment, index)));
+  }
+});
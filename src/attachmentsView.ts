@@ -0,0 +1,184 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DisposableBase } from './disposableBase';
+import * as reporterTypes from './upstream/reporter';
+import { getNonce, html } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+export type TestAttachments = {
+  title: string;
+  attachments: reporterTypes.TestResult['attachments'];
+};
+
+type AttachmentEntry = {
+  name: string;
+  contentType: string;
+  path?: string;
+  src?: string;
+  text?: string;
+};
+
+const kMaxTextPreview = 64 * 1024;
+
+export class AttachmentsView extends DisposableBase implements vscodeTypes.WebviewViewProvider {
+  private _vscode: vscodeTypes.VSCode;
+  private _view: vscodeTypes.WebviewView | undefined;
+  private _extensionUri: vscodeTypes.Uri;
+  private _testAttachments: TestAttachments | undefined;
+
+  constructor(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Uri) {
+    super();
+    this._vscode = vscode;
+    this._extensionUri = extensionUri;
+    this._disposables = [
+      vscode.window.registerWebviewViewProvider('pw.extension.attachmentsView', this),
+    ];
+  }
+
+  public resolveWebviewView(webviewView: vscodeTypes.WebviewView, context: vscodeTypes.WebviewViewResolveContext, token: vscodeTypes.CancellationToken) {
+    this._view = webviewView;
+
+    webviewView.webview.options = {
+      enableScripts: true,
+      localResourceRoots: this._localResourceRoots(),
+    };
+
+    webviewView.webview.html = htmlForWebview(this._vscode, this._extensionUri, webviewView.webview);
+    this._disposables.push(webviewView.webview.onDidReceiveMessage(data => {
+      const attachment = this._testAttachments?.attachments[data.params?.index];
+      if (!attachment)
+        return;
+      if (data.method === 'open')
+        void this._openAttachment(attachment);
+      else if (data.method === 'copyPath' && attachment.path)
+        void this._vscode.env.clipboard.writeText(attachment.path);
+    }));
+
+    this._disposables.push(webviewView.onDidChangeVisibility(() => {
+      if (webviewView.visible)
+        void this._update();
+    }));
+    void this._update();
+  }
+
+  showAttachments(testAttachments: TestAttachments | undefined) {
+    this._testAttachments = testAttachments;
+    void this._update();
+  }
+
+  private _localResourceRoots(): vscodeTypes.Uri[] {
+    // Attachments live in the output directories, allow the webview to load them for the preview.
+    const directories = new Set<string>();
+    for (const attachment of this._testAttachments?.attachments || []) {
+      if (attachment.path)
+        directories.add(path.dirname(attachment.path));
+    }
+    return [this._extensionUri, ...[...directories].map(directory => this._vscode.Uri.file(directory))];
+  }
+
+  private async _openAttachment(attachment: TestAttachments['attachments'][number]) {
+    if (attachment.path) {
+      await this._vscode.commands.executeCommand('vscode.open', this._vscode.Uri.file(attachment.path));
+      return;
+    }
+    const document = await this._vscode.workspace.openTextDocument({ content: attachment.body?.toString() || '' });
+    await this._vscode.window.showTextDocument(document);
+  }
+
+  private async _update() {
+    const view = this._view;
+    if (!view)
+      return;
+    view.webview.options = { ...view.webview.options, localResourceRoots: this._localResourceRoots() };
+    const entries: AttachmentEntry[] = [];
+    for (const attachment of this._testAttachments?.attachments || [])
+      entries.push(await this._entry(view.webview, attachment));
+    void view.webview.postMessage({ method: 'attachments', params: { title: this._testAttachments?.title, attachments: entries } });
+  }
+
+  private async _entry(webview: vscodeTypes.Webview, attachment: TestAttachments['attachments'][number]): Promise<AttachmentEntry> {
+    const { name, contentType } = attachment;
+    const entry: AttachmentEntry = { name, contentType, path: attachment.path };
+    if (contentType.startsWith('image/') || contentType.startsWith('video/')) {
+      if (attachment.path)
+        entry.src = webview.asWebviewUri(this._vscode.Uri.file(attachment.path)).toString();
+      else if (attachment.body)
+        entry.src = `data:${contentType};base64,${attachment.body.toString('base64')}`;
+    } else if (isTextContentType(contentType)) {
+      if (attachment.body)
+        entry.text = attachment.body.toString('utf8', 0, kMaxTextPreview);
+      else if (attachment.path)
+        entry.text = await readTextPreview(attachment.path);
+    }
+    return entry;
+  }
+}
+
+function isTextContentType(contentType: string) {
+  return contentType.startsWith('text/') || contentType === 'application/json' || contentType.endsWith('+json') || contentType.endsWith('+xml');
+}
+
+async function readTextPreview(file: string): Promise<string | undefined> {
+  const handle = await fs.promises.open(file, 'r').catch(() => undefined);
+  if (!handle)
+    return;
+  try {
+    const buffer = Buffer.alloc(kMaxTextPreview);
+    const { bytesRead } = await handle.read(buffer, 0, kMaxTextPreview, 0);
+    return buffer.toString('utf8', 0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function htmlForWebview(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Uri, webview: vscodeTypes.Webview) {
+  const style = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'media', 'common.css'));
+  const script = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'attachmentsView.script.js'));
+  const nonce = getNonce();
+
+  return html`
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; img-src ${webview.cspSource} data:; media-src ${webview.cspSource} data:; script-src 'nonce-${nonce}';">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <link href="${style}" rel="stylesheet">
+      <title>Playwright</title>
+    </head>
+    <body class="attachments-view">
+      <p id="empty">${vscode.l10n.t('Select a test in the Testing view to see its attachments.')}</p>
+      <p id="noAttachments" hidden>${vscode.l10n.t('The last run of this test has no attachments.')}</p>
+      <template id="attachmentTemplate">
+        <div class="attachment" role="listitem">
+          <div class="hbox">
+            <label class="attachment-name"></label>
+            <div class="attachment-actions">
+              <a role="button" class="open-attachment">${vscode.l10n.t('Open file')}</a>
+              <a role="button" class="copy-attachment-path">${vscode.l10n.t('Copy path')}</a>
+            </div>
+          </div>
+        </div>
+      </template>
+      <div id="attachments" role="list"></div>
+    </body>
+    <script nonce="${nonce}" src="${script}"></script>
+    </html>
+  `;
+}
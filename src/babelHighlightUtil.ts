@@ -33,7 +33,7 @@ export type SourcePosition = {
   column: number;  // 1-based
 };
 
-function getAst(text: string, fsPath: string) {
+export function getAst(text: string, fsPath: string) {
   const cached = astCache.get(fsPath);
   let ast = cached?.ast;
   if (!cached || cached.text !== text) {
@@ -157,3 +157,126 @@ export function findTestEndPosition(text: string, fsPath: string, startPosition:
   });
   return result;
 }
+
+export type SourceRange = {
+  start: SourcePosition;
+  end: SourcePosition;
+};
+
+// Finds the expected value of `expect(...).toMatchAriaSnapshot(expected)`, `position` is the location of the matcher name.
+export function findAriaSnapshotArgument(text: string, fsPath: string, position: SourcePosition): SourceRange | undefined {
+  const ast = getAst(text, fsPath);
+  if (!ast)
+    return;
+  let result: SourceRange | undefined;
+  traverse(ast, {
+    enter(path) {
+      if (!t.isCallExpression(path.node) || !t.isMemberExpression(path.node.callee))
+        return;
+      const property = path.node.callee.property;
+      const argument = path.node.arguments[0];
+      if (!t.isIdentifier(property) || property.name !== 'toMatchAriaSnapshot' || !property.loc)
+        return;
+      if (!t.isStringLiteral(argument) && !t.isTemplateLiteral(argument) || !argument.loc)
+        return;
+      if (property.loc.start.line !== position.line || property.loc.start.column + 1 !== position.column)
+        return;
+      result = {
+        start: { line: argument.loc.start.line, column: argument.loc.start.column + 1 },
+        end: { line: argument.loc.end.line, column: argument.loc.end.column + 1 },
+      };
+    }
+  });
+  return result;
+}
+
+export type BrittleLocatorKind = 'xpath' | 'nthChild' | 'dynamicText' | 'firstWithoutFilter';
+
+export type BrittleLocator = {
+  kind: BrittleLocatorKind;
+  // From the method name to the end of the call, e.g. `locator('//button')` in `page.locator('//button')`.
+  range: SourceRange;
+  receiver: string;
+  method: string;
+  selector?: string;
+  // Source of the arguments following the selector, e.g. the options of `page.click(selector, options)`.
+  restArguments: string;
+};
+
+const kFilterOptions = ['has', 'hasNot', 'hasText', 'hasNotText'];
+
+// Finds locators that depend on the page structure or on volatile text: XPath, positional CSS,
+// text with numbers and `.first()` calls on locators that were never narrowed down.
+export function findBrittleLocators(text: string, fsPath: string): BrittleLocator[] {
+  const ast = getAst(text, fsPath);
+  if (!ast)
+    return [];
+  const result: BrittleLocator[] = [];
+  traverse(ast, {
+    enter(path) {
+      const node = path.node;
+      if (!t.isCallExpression(node) || !t.isMemberExpression(node.callee) || node.callee.computed)
+        return;
+      const property = node.callee.property;
+      if (!t.isIdentifier(property) || !property.loc || !node.loc)
+        return;
+      const receiver = text.substring(node.callee.object.start!, node.callee.object.end!);
+      const method = property.name;
+      const selector = stringValue(node.arguments[0]);
+
+      let kind: BrittleLocatorKind | undefined;
+      if (method === 'first' && !node.arguments.length && !isFiltered(node.callee.object))
+        kind = 'firstWithoutFilter';
+      else if (method === 'getByText' && selector !== undefined && /\d/.test(selector))
+        kind = 'dynamicText';
+      else if (selector !== undefined && (method === 'locator' || pageMethods.includes(method) && /page$/i.test(receiver)))
+        kind = selectorKind(selector);
+      if (!kind)
+        return;
+
+      const restArguments = node.arguments.slice(1);
+      result.push({
+        kind,
+        range: {
+          start: { line: property.loc.start.line, column: property.loc.start.column + 1 },
+          end: { line: node.loc.end.line, column: node.loc.end.column + 1 },
+        },
+        receiver,
+        method,
+        selector,
+        restArguments: restArguments.length ? text.substring(restArguments[0].start!, restArguments[restArguments.length - 1].end!) : '',
+      });
+    }
+  });
+  return result;
+}
+
+function stringValue(node: t.Node | undefined): string | undefined {
+  if (t.isStringLiteral(node))
+    return node.value;
+  if (t.isTemplateLiteral(node) && !node.expressions.length)
+    return node.quasis[0].value.cooked ?? undefined;
+}
+
+function selectorKind(selector: string): BrittleLocatorKind | undefined {
+  if (/^\s*(xpath=|\/|\.\.|\(\s*\/)/.test(selector))
+    return 'xpath';
+  if (/:nth-(last-)?(child|of-type)\(/.test(selector))
+    return 'nthChild';
+  if (/^\s*text=.*\d/.test(selector) || /:(has-)?text\([^)]*\d/.test(selector))
+    return 'dynamicText';
+}
+
+// Whether the locator chain contains `.filter()` or a `has*` option.
+function isFiltered(node: t.Node): boolean {
+  while (t.isCallExpression(node) && t.isMemberExpression(node.callee)) {
+    const property = node.callee.property;
+    if (t.isIdentifier(property) && property.name === 'filter')
+      return true;
+    const hasFilterOption = node.arguments.some(argument => t.isObjectExpression(argument) && argument.properties.some(p => t.isObjectProperty(p) && t.isIdentifier(p.key) && kFilterOptions.includes(p.key.name)));
+    if (hasFilterOption)
+      return true;
+    node = node.callee.object;
+  }
+  return false;
+}
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { spawn } from 'child_process';
+import { ChildProcess, spawn } from 'child_process';
 import { addNpmRunPath, findNode } from './utils';
 import * as vscodeTypes from './vscodeTypes';
 import EventEmitter from 'events';
@@ -117,7 +117,7 @@ export class BackendClient extends EventEmitter {
   }
 }
 
-export async function startBackend(vscode: vscodeTypes.VSCode, options: BackendServerOptions & { onError: (error: Error) => void, onClose: () => void }): Promise<string | null> {
+export async function startBackend(vscode: vscodeTypes.VSCode, options: BackendServerOptions & { onError: (error: Error) => void, onClose: () => void, onSpawn?: (serverProcess: ChildProcess) => void }): Promise<string | null> {
   const node = await findNode(vscode, options.cwd);
   const serverProcess = spawn(node, options.args, {
     cwd: options.cwd,
@@ -127,6 +127,7 @@ export async function startBackend(vscode: vscodeTypes.VSCode, options: BackendS
       ...options.envProvider(),
     },
   });
+  options.onSpawn?.(serverProcess);
   serverProcess.stderr?.on('data', data => {
     if (options.dumpIO)
       process.stderr.write('[server err] ' + data.toString());
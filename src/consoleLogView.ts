@@ -0,0 +1,92 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DisposableBase } from './disposableBase';
+import { loadTrace, TraceConsoleMessage } from './traceModel';
+import * as vscodeTypes from './vscodeTypes';
+
+/**
+ * Shows the browser console output and uncaught page errors recorded in the trace
+ * of the selected test.
+ */
+export class ConsoleLogView extends DisposableBase implements vscodeTypes.TreeDataProvider<TraceConsoleMessage> {
+  private _vscode: vscodeTypes.VSCode;
+  private _traceUrl: string | undefined;
+  private _messages: TraceConsoleMessage[] = [];
+  private _onDidChangeTreeData: vscodeTypes.EventEmitter<void>;
+  readonly onDidChangeTreeData: vscodeTypes.Event<void>;
+
+  constructor(vscode: vscodeTypes.VSCode) {
+    super();
+    this._vscode = vscode;
+    this._onDidChangeTreeData = new vscode.EventEmitter();
+    this.onDidChangeTreeData = this._onDidChangeTreeData.event;
+    this._disposables = [
+      this._onDidChangeTreeData,
+      vscode.window.registerTreeDataProvider('pw.extension.consoleLogView', this),
+    ];
+  }
+
+  async showTrace(traceUrl: string | undefined) {
+    // Traces of running tests are not zipped yet, they are shown once the test ends.
+    if (!traceUrl?.endsWith('.zip'))
+      traceUrl = undefined;
+    if (traceUrl === this._traceUrl)
+      return;
+    this._traceUrl = traceUrl;
+    const messages = traceUrl ? (await loadTrace(traceUrl).catch(() => undefined))?.console || [] : [];
+    if (traceUrl !== this._traceUrl)
+      return;
+    this._messages = messages;
+    this._onDidChangeTreeData.fire();
+  }
+
+  getChildren(message?: TraceConsoleMessage): TraceConsoleMessage[] {
+    return message ? [] : this._messages;
+  }
+
+  getTreeItem(message: TraceConsoleMessage): vscodeTypes.TreeItem {
+    const item = new this._vscode.TreeItem(message.text.split('\n')[0]);
+    item.iconPath = new this._vscode.ThemeIcon(iconForType(message.type));
+    const details: string[] = [];
+    if (message.wallTime !== undefined)
+      details.push(formatTime(new Date(message.wallTime)));
+    if (message.location?.url)
+      details.push(`${message.location.url}:${message.location.lineNumber + 1}`);
+    item.description = details.join(' · ');
+    item.tooltip = message.type === 'pageerror' ? this._vscode.l10n.t('Uncaught page error: {0}', message.text) : `${message.type}: ${message.text}`;
+    return item;
+  }
+}
+
+export function isConsoleError(message: TraceConsoleMessage): boolean {
+  return message.type === 'error' || message.type === 'pageerror';
+}
+
+function iconForType(type: string): string {
+  switch (type) {
+    case 'pageerror': return 'bug';
+    case 'error': return 'error';
+    case 'warning': return 'warning';
+    case 'debug': return 'debug';
+    default: return 'info';
+  }
+}
+
+function formatTime(date: Date): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
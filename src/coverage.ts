@@ -0,0 +1,188 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { loadSourceMap } from './utils';
+
+// Zero-based line number to the number of times it was executed.
+export type LineCoverage = Map<number, number>;
+
+type V8CoverageEntry = {
+  url: string;
+  source?: string;
+  functions: { ranges: V8CoverageRange[] }[];
+};
+
+type V8CoverageRange = {
+  startOffset: number;
+  endOffset: number;
+  count: number;
+};
+
+/**
+ * Reads the coverage written by the coverage collector and maps it onto local source files.
+ * Scripts served over http are looked up under `roots`, the folders web servers usually serve from.
+ */
+export async function readCoverage(coverageDir: string, roots: string[]): Promise<Map<string, LineCoverage>> {
+  const result = new Map<string, LineCoverage>();
+  const coverageFiles = await fs.promises.readdir(coverageDir);
+  const errorFile = coverageFiles.find(f => f.endsWith('.error'));
+  if (errorFile)
+    throw new Error(await fs.promises.readFile(path.join(coverageDir, errorFile), 'utf8'));
+  for (const coverageFile of coverageFiles) {
+    const entries: V8CoverageEntry[] = JSON.parse(await fs.promises.readFile(path.join(coverageDir, coverageFile), 'utf8'));
+    for (const entry of entries) {
+      if (entry.source === undefined)
+        continue;
+      // Dev servers transform the files they serve, map the served script with its own source map.
+      const sourceMapComment = entry.source.trimEnd().split('\n').pop();
+      const file = await localFileForUrl(entry.url, roots, entry.source, !!sourceMapComment?.startsWith('//# sourceMappingURL='));
+      if (!file)
+        continue;
+      const lines = lineCoverage(entry);
+      const sourceMap = await loadSourceMap(sourceMapComment, path.dirname(file));
+      if (!sourceMap) {
+        mergeLineCoverage(result, file, lines);
+        continue;
+      }
+      const mappings = decodeMappings(sourceMap.mappings);
+      for (const [line, count] of lines) {
+        for (const [, sourceIndex, sourceLine] of mappings[line] || []) {
+          const source = sourceMap.sources[sourceIndex];
+          if (source !== undefined && !source.includes(`${path.sep}node_modules${path.sep}`))
+            mergeLineCoverage(result, source, new Map([[sourceLine, count]]));
+        }
+      }
+    }
+  }
+  return result;
+}
+
+async function localFileForUrl(url: string, roots: string[], source: string, hasSourceMap: boolean): Promise<string | undefined> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return;
+  }
+  if (parsed.protocol === 'file:') {
+    const file = fileURLToPath(parsed);
+    return await isFile(file) ? file : undefined;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')
+    return;
+  // The server could serve from any folder, try the longest path suffix first, e.g. for
+  // /static/js/app.js try static/js/app.js, then js/app.js and app.js under every root.
+  // Only take files that have the served contents, unless the server transformed them.
+  const segments = decodeURIComponent(parsed.pathname).split('/').filter(Boolean);
+  for (let i = 0; i < segments.length; ++i) {
+    for (const root of roots) {
+      const file = path.join(root, ...segments.slice(i));
+      if (!await isFile(file))
+        continue;
+      if (hasSourceMap || await fs.promises.readFile(file, 'utf8') === source)
+        return file;
+    }
+  }
+}
+
+async function isFile(file: string): Promise<boolean> {
+  return await fs.promises.stat(file).then(stat => stat.isFile(), () => false);
+}
+
+function lineCoverage(entry: V8CoverageEntry): LineCoverage {
+  const source = entry.source!;
+  // Nested ranges override their parents, sort them so that parents come first.
+  const ranges = entry.functions.map(f => f.ranges).flat().sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset);
+  const lines: LineCoverage = new Map();
+  const stack: V8CoverageRange[] = [];
+  let rangeIndex = 0;
+  let lineStart = 0;
+  for (const [line, text] of source.split('\n').entries()) {
+    const indent = text.length - text.trimStart().length;
+    const offset = lineStart + indent;
+    lineStart += text.length + 1;
+    if (!text.trim())
+      continue;
+    while (rangeIndex < ranges.length && ranges[rangeIndex].startOffset <= offset) {
+      const range = ranges[rangeIndex++];
+      while (stack.length && stack[stack.length - 1].endOffset <= range.startOffset)
+        stack.pop();
+      stack.push(range);
+    }
+    while (stack.length && stack[stack.length - 1].endOffset <= offset)
+      stack.pop();
+    if (stack.length)
+      lines.set(line, stack[stack.length - 1].count);
+  }
+  return lines;
+}
+
+function mergeLineCoverage(result: Map<string, LineCoverage>, file: string, lines: LineCoverage) {
+  let fileLines = result.get(file);
+  if (!fileLines) {
+    fileLines = new Map();
+    result.set(file, fileLines);
+  }
+  for (const [line, count] of lines)
+    fileLines.set(line, Math.max(fileLines.get(line) || 0, count));
+}
+
+const base64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decodes source map mappings into [generatedColumn, sourceIndex, sourceLine, sourceColumn]
+ * segments for every generated line.
+ */
+function decodeMappings(mappings: string): number[][][] {
+  const lines: number[][][] = [];
+  const state = [0, 0, 0, 0];
+  for (const line of mappings.split(';')) {
+    const segments: number[][] = [];
+    state[0] = 0;
+    for (const segment of line.split(',')) {
+      if (!segment)
+        continue;
+      const values = decodeVLQ(segment);
+      for (let i = 0; i < Math.min(values.length, 4); ++i)
+        state[i] += values[i];
+      if (values.length >= 4)
+        segments.push([...state]);
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+function decodeVLQ(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = base64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
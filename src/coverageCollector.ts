@@ -0,0 +1,98 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Preloaded into the test server and its workers for coverage runs. Starts
+// JS coverage for every Chromium page and dumps it into PW_VSCODE_COVERAGE_DIR
+// when the page's context closes. Relies on the browser context hooks that
+// playwright-core exposes to Playwright Test, the extension only enables it
+// for Playwright versions that have them.
+
+import fs from 'fs';
+import path from 'path';
+
+type Page = {
+  coverage: {
+    startJSCoverage(options: { resetOnNavigation: boolean }): Promise<void>;
+    stopJSCoverage(): Promise<unknown[]>;
+  };
+};
+
+type BrowserContext = {
+  browser(): { browserType(): { name(): string } } | null;
+  pages(): Page[];
+  on(event: 'page', listener: (page: Page) => void): void;
+};
+
+type Instrumentation = {
+  addListener(listener: object): void;
+};
+
+const coverageDir = process.env.PW_VSCODE_COVERAGE_DIR;
+const startedPages = new WeakSet<Page>();
+let lastCoverageFile = 0;
+
+async function startCoverage(page: Page) {
+  if (startedPages.has(page))
+    return;
+  startedPages.add(page);
+  await page.coverage.startJSCoverage({ resetOnNavigation: false }).catch(() => {});
+}
+
+async function writeCoverage(page: Page) {
+  if (!startedPages.has(page))
+    return;
+  const entries = await page.coverage.stopJSCoverage().catch(() => []);
+  if (entries.length)
+    await fs.promises.writeFile(path.join(coverageDir!, `${process.pid}-${++lastCoverageFile}.json`), JSON.stringify(entries));
+}
+
+const listener = {
+  runAfterCreateBrowserContext: async (context: BrowserContext) => {
+    // Only Chromium supports JS coverage.
+    if (context.browser()?.browserType().name() !== 'chromium')
+      return;
+    context.on('page', page => void startCoverage(page));
+    await Promise.all(context.pages().map(startCoverage));
+  },
+  runBeforeCloseBrowserContext: async (context: BrowserContext) => {
+    await Promise.all(context.pages().map(writeCoverage));
+  },
+};
+
+// Playwright Test uses the playwright-core that is installed next to its cli.
+function loadInstrumentation(cli: string): Instrumentation | undefined {
+  let dir = path.dirname(cli);
+  for (const name of ['playwright', 'playwright-core']) {
+    try {
+      dir = path.dirname(require.resolve(`${name}/package.json`, { paths: [dir] }));
+    } catch {
+    }
+  }
+  const instrumentation = require(dir)._instrumentation;
+  return typeof instrumentation?.addListener === 'function' ? instrumentation : undefined;
+}
+
+if (coverageDir) {
+  let instrumentation: Instrumentation | undefined;
+  try {
+    instrumentation = loadInstrumentation(process.env.PW_VSCODE_PLAYWRIGHT_CLI!);
+  } catch {
+  }
+  if (instrumentation)
+    instrumentation.addListener(listener);
+  else
+    fs.writeFileSync(path.join(coverageDir, `${process.pid}.error`), 'playwright-core does not expose browser context hooks');
+}
@@ -17,6 +17,8 @@
 import { locatorForSourcePosition, pruneAstCaches } from './babelHighlightUtil';
 import { debugSessionName } from './debugSessionName';
 import { replaceActionWithLocator, locatorMethodRegex } from './methodNames';
+import { prunePageObjectModules, resolvePageObjectLocator } from './pageObjectResolver';
+import type { PageObjectLocator } from './pageObjectResolver';
 import type { Location } from './upstream/reporter';
 import { ReusedBrowser } from './reusedBrowser';
 import * as vscodeTypes from './vscodeTypes';
@@ -32,9 +34,11 @@ export class DebugHighlight {
   private _onStdOutEmitter: vscodeTypes.EventEmitter<string>;
   readonly onStdOut: vscodeTypes.Event<string>;
   private _disposables: vscodeTypes.Disposable[] = [];
+  private _vscode: vscodeTypes.VSCode;
   private _reusedBrowser: ReusedBrowser;
 
   constructor(vscode: vscodeTypes.VSCode, reusedBrowser: ReusedBrowser) {
+    this._vscode = vscode;
     this._reusedBrowser = reusedBrowser;
     this._onErrorInDebuggerEmitter = new vscode.EventEmitter();
     this.onErrorInDebugger = this._onErrorInDebuggerEmitter.event;
@@ -56,13 +60,18 @@ export class DebugHighlight {
       vscode.languages.registerHoverProvider('typescript', {
         provideHover(document, position, token) {
           void self._highlightLocator(document, position, token).catch();
-          return null;
+          return self._pageObjectLocatorHover(document, position);
         }
       }),
       vscode.languages.registerHoverProvider('javascript', {
         provideHover(document, position, token) {
           void self._highlightLocator(document, position, token).catch();
-          return null;
+          return self._pageObjectLocatorHover(document, position);
+        }
+      }),
+      vscode.languages.registerDefinitionProvider(['javascript', 'javascriptreact', 'typescript', 'typescriptreact'].map(language => ({ language, scheme: 'file' })), {
+        provideDefinition(document, position) {
+          return self._pageObjectLocatorDefinition(document, position);
         }
       }),
       vscode.window.onDidChangeTextEditorSelection(event => {
@@ -112,6 +121,22 @@ export class DebugHighlight {
       this._hideHighlight();
   }
 
+  private _pageObjectLocatorHover(document: vscodeTypes.TextDocument, position: vscodeTypes.Position): vscodeTypes.Hover | null {
+    const expression = pageObjectLocator(document, position)?.expression;
+    if (!expression)
+      return null;
+    const markdown = new this._vscode.MarkdownString();
+    markdown.appendMarkdown(['```ts', expression, '```'].join('\n'));
+    return new this._vscode.Hover(markdown);
+  }
+
+  private _pageObjectLocatorDefinition(document: vscodeTypes.TextDocument, position: vscodeTypes.Position): vscodeTypes.Location | null {
+    const definition = pageObjectLocator(document, position)?.definition;
+    if (!definition)
+      return null;
+    return new this._vscode.Location(this._vscode.Uri.file(definition.file), new this._vscode.Position(definition.line - 1, definition.column - 1));
+  }
+
   private _hideHighlight() {
     this._reusedBrowser.hideHighlight();
   }
@@ -159,7 +184,13 @@ async function locatorToHighlight(debugSessions: Map<string, vscodeTypes.DebugSe
       // just fine.
       return match[1];
     }
-    return;
+    // Locators defined by page objects, possibly in other files.
+    const resolved = pageObjectLocator(document, position);
+    if (!resolved?.expression)
+      return;
+    if (locatorExpression?.startsWith(resolved.source))
+      return resolved.expression.replace(/^page\s*\./, '') + locatorExpression.substring(resolved.source.length);
+    return resolved.expression.replace(/^page\s*\./, '');
   }
 
   for (const session of debugSessions.values()) {
@@ -178,10 +209,11 @@ async function locatorToHighlight(debugSessions: Map<string, vscodeTypes.DebugSe
         return;
       const vars = await scopeVariables(session, stackFrame);
       const text = document.getText();
+      // Page object properties are evaluated in the paused frame, wherever they are defined.
       const locatorExpression = locatorForSourcePosition(text, vars, fsPath, {
         line: position.line + 1,
         column: position.character + 1
-      });
+      }) ?? pageObjectLocator(document, position)?.source;
       if (!locatorExpression)
         continue;
       if (token?.isCancellationRequested)
@@ -193,6 +225,28 @@ async function locatorToHighlight(debugSessions: Map<string, vscodeTypes.DebugSe
   }
 }
 
+// Hovers resolve the same position for the highlight and the hover text, resolve it once per document version.
+const pageObjectLocatorCache = new Map<string, { version: number, locators: Map<string, PageObjectLocator | undefined> }>();
+
+function pageObjectLocator(document: vscodeTypes.TextDocument, position: vscodeTypes.Position) {
+  const fsPath = uriToPath(document.uri);
+  if (!/\.[cm]?[jt]sx?$/.test(fsPath))
+    return;
+  let cached = pageObjectLocatorCache.get(fsPath);
+  if (cached?.version !== document.version) {
+    cached = { version: document.version, locators: new Map() };
+    pageObjectLocatorCache.set(fsPath, cached);
+  }
+  const key = `${position.line}:${position.character}`;
+  if (!cached.locators.has(key)) {
+    cached.locators.set(key, resolvePageObjectLocator(document.getText(), fsPath, {
+      line: position.line + 1,
+      column: position.character + 1
+    }));
+  }
+  return cached.locators.get(key);
+}
+
 async function pausedStackFrames(session: vscodeTypes.DebugSession, threadId: number | undefined): Promise<StackFrame[] | undefined> {
   const { threads } = await session.customRequest('threads').then(result => result, () => ({ threads: [] }));
   for (const thread of threads) {
@@ -248,6 +302,12 @@ async function computeLocatorForHighlight(session: vscodeTypes.DebugSession, fra
 
 export function pruneHighlightCaches(fsPathsToRetain: string[]) {
   pruneAstCaches(fsPathsToRetain);
+  prunePageObjectModules(fsPathsToRetain);
+  const retain = new Set(fsPathsToRetain);
+  for (const key of pageObjectLocatorCache.keys()) {
+    if (!retain.has(key))
+      pageObjectLocatorCache.delete(key);
+  }
 }
 
 function isPlaywrightSession(session: vscodeTypes.DebugSession): boolean {
@@ -0,0 +1,166 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import type { TestConfig } from './playwrightTestServer';
+import { findNode, html } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+import { TraceViewer } from './traceViewer';
+
+export class EmbeddedTraceViewer implements TraceViewer {
+  private _vscode: vscodeTypes.VSCode;
+  private _extensionUri: vscodeTypes.Uri;
+  private _envProvider: (configFile: string) => NodeJS.ProcessEnv;
+  private _traceViewerProcess: ChildProcess | undefined;
+  private _serverUrlPrefix: Promise<string | undefined> | undefined;
+  private _panel: vscodeTypes.WebviewPanel | undefined;
+  private _currentFile?: string;
+  private _config: TestConfig;
+
+  constructor(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Uri, envProvider: (configFile: string) => NodeJS.ProcessEnv, config: TestConfig) {
+    this._vscode = vscode;
+    this._extensionUri = extensionUri;
+    this._envProvider = envProvider;
+    this._config = config;
+  }
+
+  currentFile() {
+    return this._currentFile;
+  }
+
+  async willRunTests() {
+    await this._startIfNeeded();
+  }
+
+  async open(file?: string) {
+    this._currentFile = file;
+    if (!file && !this._traceViewerProcess)
+      return;
+    await this._startIfNeeded();
+    this._traceViewerProcess?.stdin?.write(file + '\n');
+    if (file)
+      await this._showPanel();
+  }
+
+  async reveal() {
+    this._panel?.reveal(undefined, true);
+  }
+
+  private async _startIfNeeded() {
+    const node = await findNode(this._vscode, this._config.workspaceFolder);
+    if (this._traceViewerProcess)
+      return;
+    const traceViewerProcess = spawn(node, [require.resolve('./traceViewerServer'), this._config.cli], {
+      cwd: this._config.workspaceFolder,
+      stdio: 'pipe',
+      env: {
+        ...process.env,
+        ...this._envProvider(this._config.configFile),
+      },
+    });
+    this._traceViewerProcess = traceViewerProcess;
+
+    this._serverUrlPrefix = new Promise(resolve => {
+      traceViewerProcess.stdout?.on('data', data => {
+        const match = data.toString().match(/Listening on (.*)/);
+        if (match)
+          resolve(match[1]);
+      });
+      traceViewerProcess.on('exit', () => resolve(undefined));
+    });
+    const pipeLog = (data: Buffer) => {
+      if (!this._vscode.isUnderTest)
+        console.log(data.toString());
+    };
+    traceViewerProcess.stdout?.on('data', pipeLog);
+    traceViewerProcess.stderr?.on('data', pipeLog);
+    traceViewerProcess.on('exit', () => {
+      if (this._traceViewerProcess === traceViewerProcess)
+        this.close();
+    });
+    traceViewerProcess.on('error', error => {
+      void this._vscode.window.showErrorMessage(error.message);
+      this.close();
+    });
+  }
+
+  private async _showPanel() {
+    const serverUrlPrefixPromise = this._serverUrlPrefix;
+    const serverUrlPrefix = await serverUrlPrefixPromise;
+    if (!serverUrlPrefix)
+      return;
+    // Forwards the port when running remotely.
+    const serverUri = await this._vscode.env.asExternalUri(this._vscode.Uri.parse(serverUrlPrefix));
+    // Bail out if the viewer was closed or another call created the panel in the meantime.
+    if (this._panel || this._serverUrlPrefix !== serverUrlPrefixPromise)
+      return;
+    const panel = this._vscode.window.createWebviewPanel('playwright.traceviewer.view', this._vscode.l10n.t('Trace Viewer'), {
+      viewColumn: this._vscode.ViewColumn.Active,
+      preserveFocus: true,
+    }, {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+      localResourceRoots: [this._vscode.Uri.joinPath(this._extensionUri, 'media')],
+    });
+    this._panel = panel;
+    panel.webview.html = htmlForWebview(this._vscode, this._extensionUri, panel.webview, serverUri);
+    panel.onDidDispose(() => {
+      if (this._panel === panel)
+        this.close();
+    });
+  }
+
+  close() {
+    const panel = this._panel;
+    this._panel = undefined;
+    this._traceViewerProcess?.stdin?.end();
+    this._traceViewerProcess = undefined;
+    this._serverUrlPrefix = undefined;
+    this._currentFile = undefined;
+    panel?.dispose();
+  }
+
+  async infoForTest() {
+    return {
+      type: 'embedded',
+      serverUrlPrefix: await this._serverUrlPrefix,
+      testConfigFile: this._config.configFile,
+      traceFile: this._currentFile,
+      visible: !!this._panel,
+    };
+  }
+}
+
+function htmlForWebview(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Uri, webview: vscodeTypes.Webview, serverUri: vscodeTypes.Uri) {
+  const style = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'media', 'traceViewer.css'));
+  const serverOrigin = new URL(serverUri.toString()).origin;
+
+  return html`
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; frame-src ${serverOrigin};">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <link href="${style}" rel="stylesheet">
+      <title>Playwright Trace Viewer</title>
+    </head>
+    <body>
+      <iframe src="${serverUri.toString()}" allow="clipboard-read; clipboard-write"></iframe>
+    </body>
+    </html>
+  `;
+}
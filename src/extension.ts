@@ -15,6 +15,7 @@
  */
 
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import StackUtils from 'stack-utils';
 import { DebugHighlight } from './debugHighlight';
@@ -23,18 +24,38 @@ import * as reporterTypes from './upstream/reporter';
 import { ReusedBrowser } from './reusedBrowser';
 import { SettingsModel } from './settingsModel';
 import { SettingsView } from './settingsView';
-import { RunHooks, TestModel, TestModelCollection, TestProject } from './testModel';
-import { configError, disabledProjectName as disabledProject, TestTree } from './testTree';
+import { ancestorProject, RunHooks, RunRequestOptions, TestModel, TestModelCollection, TestProject } from './testModel';
+import { configError, disabledProjectName as disabledProject, TestTree, upstreamTreeItem } from './testTree';
 import { NodeJSNotFoundError, getPlaywrightInfo, stripAnsi, stripBabelFrame, uriToPath } from './utils';
 import * as vscodeTypes from './vscodeTypes';
 import { WorkspaceChange, WorkspaceObserver } from './workspaceObserver';
 import { registerTerminalLinkProvider } from './terminalLinkProvider';
 import { ansi2html } from './ansi2html';
+import { LocatorHistory } from './locatorHistory';
+import { LocatorLinter } from './locatorLinter';
 import { LocatorsView } from './locatorsView';
 import { pathToFileURL } from 'url';
 import { TestConfig } from './playwrightTestServer';
 import { findTestEndPosition } from './babelHighlightUtil';
 import { registerLanguageModelTools } from './languageModelTools';
+import { TestHistory } from './testHistory';
+import { TestHistoryView } from './testHistoryView';
+import { TestStepsView } from './testStepsView';
+import { AttachmentsView, TestAttachments } from './attachmentsView';
+import { ConsoleLogView, isConsoleError } from './consoleLogView';
+import { NetworkView } from './networkView';
+import { extractPageObjectFromEditor } from './pageObjectExtraction';
+import { SnapshotReview } from './snapshotReview';
+import { AriaSnapshotDiff } from './ariaSnapshotDiff';
+import { TraceActionsView } from './traceActionsView';
+import { TraceComparison } from './traceComparison';
+import { loadConsoleMessages, TraceConsoleMessage } from './traceModel';
+import { TagRunProfiles } from './tagRunProfiles';
+import { RunReport } from './runReport';
+import { loadReports } from './reportLoader';
+import { SlowestTestsView } from './slowestTestsView';
+import { FailureGroup, FailureGroupsView } from './failureGroupsView';
+import { LineCoverage } from './coverage';
 
 const stackUtils = new StackUtils({
   cwd: '/ensure_absolute_paths'
@@ -81,10 +102,29 @@ export class Extension implements RunHooks {
   private _settingsModel: SettingsModel;
   private _settingsView!: SettingsView;
   private _locatorsView!: LocatorsView;
+  private _testHistory: TestHistory;
+  private _testHistoryView!: TestHistoryView;
+  private _testStepsView!: TestStepsView;
+  private _attachmentsView!: AttachmentsView;
+  private _snapshotReview!: SnapshotReview;
+  private _ariaSnapshotDiff!: AriaSnapshotDiff;
+  private _locatorLinter!: LocatorLinter;
+  private _traceActionsView!: TraceActionsView;
+  private _traceComparison!: TraceComparison;
+  private _networkView!: NetworkView;
+  private _consoleLogView!: ConsoleLogView;
+  private _slowestTestsView!: SlowestTestsView;
+  private _failureGroupsView!: FailureGroupsView;
+  private _runReport: RunReport | undefined;
+  // Attachments extracted from the last loaded report.
+  private _reportResourcesDir: string | undefined;
   private _diagnostics: vscodeTypes.DiagnosticCollection;
   private _treeItemObserver: TreeItemObserver;
   private _runProfile: vscodeTypes.TestRunProfile;
   private _debugProfile: vscodeTypes.TestRunProfile;
+  private _shardedRunProfile: vscodeTypes.TestRunProfile;
+  private _coverageProfile: vscodeTypes.TestRunProfile;
+  private _tagRunProfiles: TagRunProfiles;
   private _commandQueue = Promise.resolve();
   private _watchFilesBatch?: vscodeTypes.TestItem[];
   private _watchItemsBatch?: vscodeTypes.TestItem[];
@@ -141,6 +181,7 @@ export class Extension implements RunHooks {
       onStdOut: this._debugHighlight.onStdOut.bind(this._debugHighlight),
       requestWatchRun: this._runWatchedTests.bind(this),
       testPausedHandler: this._onTestPaused.bind(this),
+      testsListed: (configFile, files, testIds) => this._testHistory.prune(configFile, files, testIds),
     });
     this._testController = vscode.tests.createTestController('playwright', 'Playwright');
     this._testController.resolveHandler = item => this._resolveChildren(item);
@@ -148,7 +189,12 @@ export class Extension implements RunHooks {
     const supportsContinuousRun = true;
     this._runProfile = this._testController.createRunProfile('playwright-run', this._vscode.TestRunProfileKind.Run, this._handleTestRun.bind(this, false), true, undefined, supportsContinuousRun);
     this._debugProfile = this._testController.createRunProfile('playwright-debug', this._vscode.TestRunProfileKind.Debug, this._handleTestRun.bind(this, true), true, undefined, supportsContinuousRun);
-    this._testTree = new TestTree(vscode, this._models, this._testController);
+    this._shardedRunProfile = this._testController.createRunProfile(this._vscode.l10n.t('Run sharded'), this._vscode.TestRunProfileKind.Run, (request, token) => this._handleTestRun(false, request, token, { sharded: true }), false);
+    this._coverageProfile = this._testController.createRunProfile(this._vscode.l10n.t('Run with coverage'), this._vscode.TestRunProfileKind.Coverage, (request, token) => this._handleTestRun(false, request, token, { coverage: true }), false);
+    this._coverageProfile.loadDetailedCoverage = async (_, fileCoverage) => (fileCoverage as any)[coverageDetailsSymbol] || [];
+    this._tagRunProfiles = new TagRunProfiles(vscode, this._testController, this._models, (request, token, requestOptions) => this._handleTestRun(false, request, token, requestOptions));
+    this._testHistory = new TestHistory(vscode, context);
+    this._testTree = new TestTree(vscode, this._models, this._testController, this._testHistory);
     this._debugHighlight.onErrorInDebugger(e => this._errorInDebugger(e.error, e.location));
     this._workspaceObserver = new WorkspaceObserver(this._vscode, changes => this._workspaceChanged(changes) , this._isUnderTest);
     this._diagnostics = this._vscode.languages.createDiagnosticCollection('pw.testErrors.diagnostic');
@@ -178,11 +224,24 @@ export class Extension implements RunHooks {
   async activate() {
     const vscode = this._vscode;
     this._settingsView = new SettingsView(vscode, this._settingsModel, this._models, this._reusedBrowser, this._context.extensionUri);
-    this._locatorsView = new LocatorsView(vscode, this._settingsModel, this._reusedBrowser, this._context.extensionUri);
+    this._locatorsView = new LocatorsView(vscode, this._settingsModel, this._reusedBrowser, new LocatorHistory(this._context), this._context.extensionUri);
+    this._testHistoryView = new TestHistoryView(vscode, this._testHistory);
+    this._testStepsView = new TestStepsView(vscode, location => this._asLocation(location));
+    this._attachmentsView = new AttachmentsView(vscode, this._context.extensionUri);
+    this._snapshotReview = new SnapshotReview(vscode, this._settingsModel, this._context.extensionUri);
+    this._ariaSnapshotDiff = new AriaSnapshotDiff(vscode);
+    this._locatorLinter = new LocatorLinter(vscode, this._reusedBrowser, this._models);
+    this._traceActionsView = new TraceActionsView(vscode);
+    this._traceComparison = new TraceComparison(vscode, this._context.extensionUri);
+    this._networkView = new NetworkView(vscode, this._context.extensionUri);
+    this._consoleLogView = new ConsoleLogView(vscode);
+    this._slowestTestsView = new SlowestTestsView(vscode, this._testHistory, this._settingsModel);
+    this._failureGroupsView = new FailureGroupsView(vscode, text => this._abbreviateStack(text));
     const messageNoPlaywrightTestsFound = this._vscode.l10n.t('No Playwright tests found.');
     this._disposables = [
       this._debugHighlight,
       this._settingsModel,
+      { dispose: () => this._removeReportResources() },
       vscode.workspace.onDidChangeWorkspaceFolders(_ => {
         this._scheduleRebuildModels();
       }),
@@ -212,26 +271,10 @@ export class Extension implements RunHooks {
         this._reusedBrowser.closeAllBrowsers();
       }),
       vscode.commands.registerCommand('pw.extension.command.recordNew', async () => {
-        const model = this._models.selectedModel();
-        if (!model)
-          return vscode.window.showWarningMessage(messageNoPlaywrightTestsFound);
-
-        const project = model.enabledProjects()[0];
-        if (!project)
-          return vscode.window.showWarningMessage(this._vscode.l10n.t(`Project is disabled in the Playwright sidebar.`));
-
-        const file = await this._createFileForNewTest(model, project);
-        if (!file)
-          return;
-
-        const showBrowser = this._settingsModel.showBrowser.get() ?? false;
-        try {
-          await this._settingsModel.showBrowser.set(true);
-          await this._showBrowserForRecording(file, project);
-          await this._reusedBrowser.record(model, project.project);
-        } finally {
-          await this._settingsModel.showBrowser.set(showBrowser);
-        }
+        await this._recordNew({ har: false });
+      }),
+      vscode.commands.registerCommand('pw.extension.command.recordNewWithHar', async () => {
+        await this._recordNew({ har: true });
       }),
       vscode.commands.registerCommand('pw.extension.command.recordAtCursor', async () => {
         const model = this._models.selectedModel();
@@ -308,6 +351,45 @@ export class Extension implements RunHooks {
       vscode.commands.registerCommand('pw.extension.command.clearCache', async () => {
         await this._models.selectedModel()?.clearCache();
       }),
+      vscode.commands.registerCommand('pw.extension.command.clearTestHistory', () => {
+        this._testHistory.clear();
+      }),
+      vscode.commands.registerCommand('pw.extension.command.exportRunReport', async () => {
+        await this._exportRunReport();
+      }),
+      vscode.commands.registerCommand('pw.extension.command.loadReport', async () => {
+        await this._loadReport();
+      }),
+      vscode.commands.registerCommand('pw.extension.command.reviewSnapshots', () => {
+        this._snapshotReview.show();
+      }),
+      vscode.commands.registerCommand('pw.extension.command.showAriaSnapshotDiff', async (id: string) => {
+        await this._ariaSnapshotDiff.showDiff(id);
+      }),
+      vscode.commands.registerCommand('pw.extension.command.acceptedAriaSnapshot', (id: string) => {
+        this._ariaSnapshotDiff.accepted(id);
+      }),
+      vscode.commands.registerCommand('pw.extension.command.highlightLocator', async (locator: string) => {
+        await this._locatorLinter.highlight(locator);
+      }),
+      vscode.commands.registerCommand('pw.extension.command.compareTraces', async (testItem?: vscodeTypes.TestItem) => {
+        await this._traceComparison.compare(testItem, testItem ? (testItem as any)[traceUrlSymbol] : undefined);
+      }),
+      vscode.commands.registerCommand('pw.extension.command.setTraceBaseline', async (testItem?: vscodeTypes.TestItem) => {
+        if (testItem)
+          await this._traceComparison.setBaseline(testItem, (testItem as any)[traceUrlSymbol]);
+      }),
+      vscode.commands.registerCommand('pw.extension.command.rerunFailureGroup', async (group: FailureGroup) => {
+        const testItems = group.tests.map(test => this._testTree.testItemForTest(test)).filter(Boolean) as vscodeTypes.TestItem[];
+        if (testItems.length)
+          await this._queueTestRun(new this._vscode.TestRunRequest(testItems), 'run');
+      }),
+      vscode.commands.registerCommand('pw.extension.command.extractPageObject', async (className?: string) => {
+        await extractPageObjectFromEditor(this._vscode, className);
+      }),
+      vscode.commands.registerCommand('pw.extension.command.toggleQuarantine', async (...testItems: vscodeTypes.TestItem[]) => {
+        await this._toggleQuarantine(testItems);
+      }),
       vscode.workspace.onDidChangeTextDocument(() => {
         if (this._completedSteps.size) {
           this._completedSteps.clear();
@@ -319,6 +401,19 @@ export class Extension implements RunHooks {
           this._scheduleRebuildModels();
       }),
       this._testTree,
+      this._testHistory,
+      this._testHistoryView,
+      this._testStepsView,
+      this._attachmentsView,
+      this._snapshotReview,
+      this._ariaSnapshotDiff,
+      this._locatorLinter,
+      this._traceActionsView,
+      this._traceComparison,
+      this._networkView,
+      this._consoleLogView,
+      this._slowestTestsView,
+      this._failureGroupsView,
       this._models,
       this._models.onUpdated(() => {
         void this._modelsUpdated();
@@ -329,6 +424,9 @@ export class Extension implements RunHooks {
       this._testController,
       this._runProfile,
       this._debugProfile,
+      this._shardedRunProfile,
+      this._coverageProfile,
+      this._tagRunProfiles,
       this._workspaceObserver,
       this._reusedBrowser,
       this._diagnostics,
@@ -430,6 +528,7 @@ export class Extension implements RunHooks {
 
     this._models.ensureHasEnabledModels();
     this._testTree.finishedLoading();
+    void this._testHistory.pruneDeletedFiles();
   }
 
   private async _modelsUpdated() {
@@ -496,7 +595,7 @@ export class Extension implements RunHooks {
     }
   }
 
-  private async _handleTestRun(isDebug: boolean, request: vscodeTypes.TestRunRequest, cancellationToken?: vscodeTypes.CancellationToken) {
+  private async _handleTestRun(isDebug: boolean, request: vscodeTypes.TestRunRequest, cancellationToken?: vscodeTypes.CancellationToken, requestOptions?: RunRequestOptions) {
     // Never run tests concurrently.
     if (this._testRun && !request.continuous)
       return;
@@ -526,7 +625,7 @@ export class Extension implements RunHooks {
       }
     }
 
-    await this._queueTestRun(request, isDebug ? 'debug' : 'run');
+    await this._queueTestRun(request, isDebug ? 'debug' : 'run', requestOptions);
 
     if (request.continuous) {
       for (const model of this._models.enabledModels())
@@ -534,8 +633,8 @@ export class Extension implements RunHooks {
     }
   }
 
-  private async _queueTestRun(request: vscodeTypes.TestRunRequest, mode: 'run' | 'debug') {
-    await this._queueCommand(() => this._runTests(request, mode), undefined);
+  private async _queueTestRun(request: vscodeTypes.TestRunRequest, mode: 'run' | 'debug', requestOptions?: RunRequestOptions) {
+    await this._queueCommand(() => this._runTests(request, mode, requestOptions), undefined);
   }
 
   private async _queueWatchRun(request: vscodeTypes.TestRunRequest, type: 'files' | 'items') {
@@ -583,7 +682,7 @@ export class Extension implements RunHooks {
     }
   }
 
-  private async _runTests(request: vscodeTypes.TestRunRequest, mode: 'run' | 'debug' | 'watch') {
+  private async _runTests(request: vscodeTypes.TestRunRequest, mode: 'run' | 'debug' | 'watch', requestOptions?: RunRequestOptions) {
     this._completedSteps.clear();
     this._executionLinesChanged();
     const include = request.include;
@@ -609,6 +708,7 @@ export class Extension implements RunHooks {
     }
 
     this._testRun = this._testController.createTestRun(request);
+    this._runReport = new RunReport();
     const enqueuedTests: vscodeTypes.TestItem[] = [];
     // Provisionally mark tests (not files and not suits) as enqueued to provide immediate feedback.
     const toEnqueue = include?.length ? include : rootItems;
@@ -626,16 +726,111 @@ export class Extension implements RunHooks {
           continue;
         if (!model.enabledProjects().length)
           continue;
-        await this._runTest(this._testRun, request, testItemForGlobalErrors, new Set(), model, mode, enqueuedTests.length === 1);
+        await this._runTest(this._testRun, this._runReport, request, testItemForGlobalErrors, new Set(), model, mode, enqueuedTests.length === 1, requestOptions);
+      }
+      // Quarantined tests are filtered out of the run, report them as skipped.
+      if (mode !== 'debug' && this._settingsModel.quarantineMode.get() === 'skip') {
+        for (const testItem of enqueuedTests) {
+          if (this._isQuarantined(testItem))
+            this._testRun.skipped(testItem);
+        }
       }
     } finally {
       this._activeSteps.clear();
       this._executionLinesChanged();
+      this._testHistory.save();
+      this._runReport.end();
+      this._slowestTestsView.setLatestRun(this._runReport);
+      this._failureGroupsView.setLatestRun(this._runReport);
       this._testRun.end();
       this._testRun = undefined;
     }
   }
 
+  private _addCoverage(testRun: vscodeTypes.TestRun, coverage: Map<string, LineCoverage>) {
+    for (const [file, lines] of coverage) {
+      const details = [...lines].map(([line, count]) => new this._vscode.StatementCoverage(count, new this._vscode.Position(line, 0)));
+      const fileCoverage = this._vscode.FileCoverage.fromDetails(this._vscode.Uri.file(file), details);
+      // Details are served to the editor lazily, via the coverage profile.
+      (fileCoverage as any)[coverageDetailsSymbol] = details;
+      testRun.addCoverage(fileCoverage);
+    }
+  }
+
+  private async _exportRunReport() {
+    const runReport = this._runReport;
+    if (!runReport) {
+      void this._vscode.window.showWarningMessage(this._vscode.l10n.t('Run tests before exporting a report.'));
+      return;
+    }
+    const workspaceFolder = this._vscode.workspace.workspaceFolders?.[0];
+    const uri = await this._vscode.window.showSaveDialog({
+      title: this._vscode.l10n.t('Export test report'),
+      defaultUri: workspaceFolder ? this._vscode.Uri.joinPath(workspaceFolder.uri, 'playwright-report.html') : undefined,
+      filters: { HTML: ['html'] },
+    });
+    if (!uri)
+      return;
+    // The JSON report is written next to the HTML one.
+    const htmlFile = uriToPath(uri);
+    const jsonFile = htmlFile.replace(/\.html?$/, '') + '.json';
+    await fs.promises.writeFile(htmlFile, await runReport.toHTML(this._vscode.l10n.t('Playwright test report')));
+    await fs.promises.writeFile(jsonFile, JSON.stringify(runReport.toJSON(), undefined, 2));
+  }
+
+  private async _loadReport() {
+    const model = this._models.selectedModel();
+    if (!model) {
+      void this._vscode.window.showWarningMessage(this._vscode.l10n.t('No Playwright config is selected.'));
+      return;
+    }
+    const uris = await this._vscode.window.showOpenDialog({
+      title: this._vscode.l10n.t('Load test report'),
+      canSelectMany: true,
+      filters: { [this._vscode.l10n.t('Playwright reports')]: ['zip', 'jsonl', 'json'] },
+    });
+    if (!uris?.length)
+      return;
+
+    const files = uris.map(uriToPath);
+    // Reports are shown in a separate, non-persisted run that does not execute anything.
+    const testRun = this._testController.createTestRun(new this._vscode.TestRunRequest(), files.map(file => path.basename(file)).join(', '), false);
+    try {
+      this._removeReportResources();
+      this._reportResourcesDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'pw-report-'));
+      const rootSuite = await loadReports(files, model.config.configFile, this._reportResourcesDir, this._errorReportingListener(testRun));
+      if (!rootSuite)
+        return;
+      const tests = rootSuite.allTests();
+      await this._ensureTestsInAllModels([...new Set(tests.map(test => test.location.file))]);
+      for (const test of tests) {
+        const testItem = this._testTree.testItemForTest(test);
+        const result = test.results[test.results.length - 1];
+        if (!testItem || !result)
+          continue;
+        const trace = result.attachments.find(a => a.name === 'trace')?.path;
+        if (trace)
+          (testItem as any)[traceUrlSymbol] = trace;
+        if (result.status === 'skipped')
+          testRun.skipped(testItem);
+        else if (test.ok())
+          testRun.passed(testItem, result.duration);
+        else
+          testRun.failed(testItem, result.errors.map(error => this._testMessageForTestError(error, this._extractAIContext(result))), result.duration);
+      }
+    } catch (error: any) {
+      void this._vscode.window.showErrorMessage(this._vscode.l10n.t('Unable to load test report: {0}', error.message));
+    } finally {
+      testRun.end();
+    }
+  }
+
+  private _removeReportResources() {
+    if (this._reportResourcesDir)
+      fs.rmSync(this._reportResourcesDir, { recursive: true, force: true });
+    this._reportResourcesDir = undefined;
+  }
+
   private async _resolveChildren(fileItem: vscodeTypes.TestItem | undefined): Promise<void> {
     if (!fileItem)
       return;
@@ -655,14 +850,20 @@ export class Extension implements RunHooks {
 
   private async _runTest(
     testRun: vscodeTypes.TestRun,
+    runReport: RunReport,
     request: vscodeTypes.TestRunRequest,
     testItemForGlobalErrors: vscodeTypes.TestItem | undefined,
     testFailures: Set<vscodeTypes.TestItem>,
     model: TestModel,
     mode: 'run' | 'debug' | 'watch',
-    enqueuedSingleTest: boolean) {
+    enqueuedSingleTest: boolean,
+    requestOptions?: RunRequestOptions) {
 
     let browserDoesNotExist = false;
+    // Repeated and retried runs report their results into the same test case.
+    const endedTests = new Map<vscodeTypes.TestItem, reporterTypes.TestCase>();
+    // Failures wait for the browser errors to be read from their traces.
+    const pendingFailures: Promise<void>[] = [];
 
     const testListener: reporterTypes.ReporterV2 = {
       ...this._errorReportingListener(testRun, testItemForGlobalErrors),
@@ -708,9 +909,20 @@ export class Extension implements RunHooks {
         this._activeSteps.clear();
         this._executionLinesChanged();
 
+        this._testHistory.record(test, result, ancestorProject(test).name, model.config.configFile);
+
         const testItem = this._testTree.testItemForTest(test);
         if (!testItem)
           return;
+        this._testStepsView.testEnded(testItem, test, result);
+        const testAttachments: TestAttachments = { title: test.title, attachments: result.attachments };
+        (testItem as any)[attachmentsSymbol] = testAttachments;
+        if (testItem === this._treeItemObserver.selectedTreeItem())
+          this._attachmentsView.showAttachments(testAttachments);
+        this._snapshotReview.testEnded(test, result);
+        this._ariaSnapshotDiff.testEnded(test, result);
+
+        endedTests.set(testItem, test);
 
         const trace = result.attachments.find(a => a.name === 'trace')?.path || '';
         // if trace viewer is currently displaying the trace file about to be replaced, it needs to be refreshed
@@ -728,10 +940,23 @@ export class Extension implements RunHooks {
           }
           return;
         }
+        if (mode !== 'debug' && this._settingsModel.quarantineMode.get() === 'ignoreFailures' && this._settingsModel.isQuarantined(test.id)) {
+          testRun.appendOutput(this._vscode.l10n.t('Quarantined test "{0}" failed, the failure is not reported.', test.title) + '\r\n');
+          testRun.skipped(testItem);
+          return;
+        }
         testFailures.add(testItem);
 
         const aiContext = this._extractAIContext(result);
-        testRun.failed(testItem, result.errors.map(error => this._testMessageForTestError(error, aiContext)), result.duration);
+        const testMessages = result.errors.map(error => this._testMessageForTestError(error, aiContext));
+        if (!trace.endsWith('.zip')) {
+          testRun.failed(testItem, testMessages, result.duration);
+          return;
+        }
+        pendingFailures.push(loadConsoleMessages(trace).catch(() => []).then(messages => {
+          const consoleErrors = messages.filter(isConsoleError).map(message => this._testMessageForConsoleError(message));
+          testRun.failed(testItem, [...testMessages, ...consoleErrors], result.duration);
+        }));
       },
 
       onStepBegin: (test: reporterTypes.TestCase, result: reporterTypes.TestResult, testStep: reporterTypes.TestStep) => {
@@ -766,12 +991,26 @@ export class Extension implements RunHooks {
     };
 
     if (mode === 'debug') {
-      await model.debugTests(request, testListener, testRun.token);
+      await model.debugTests(request, runReport.reporter(testListener), testRun.token);
       this._cleanupItemUnderDebug();
     } else {
       // Force trace viewer update to surface check version errors.
       await this._models.selectedModel()?.updateTraceViewer(mode === 'run')?.willRunTests();
-      await model.runTests(request, testListener, testRun.token);
+      const coverage = await model.runTests(request, runReport.reporter(testListener), testRun.token, requestOptions);
+      if (coverage)
+        this._addCoverage(testRun, coverage);
+    }
+    await Promise.all(pendingFailures);
+
+    // A test that both passed and failed is flaky, report it as passed like Playwright does.
+    for (const [testItem, test] of endedTests) {
+      if (test.outcome() !== 'flaky')
+        continue;
+      const results = test.results.filter(result => result.status !== 'skipped' && result.status !== 'interrupted');
+      const failed = results.filter(result => result.status !== test.expectedStatus).length;
+      testRun.appendOutput(this._vscode.l10n.t('Test "{0}" is flaky: {1} of {2} runs failed.', testItem.label, failed, results.length) + '\r\n');
+      testRun.passed(testItem);
+      testFailures.delete(testItem);
     }
 
     if (browserDoesNotExist)
@@ -830,6 +1069,33 @@ export class Extension implements RunHooks {
     }
   }
 
+  private async _toggleQuarantine(testItems: vscodeTypes.TestItem[]) {
+    const tests: reporterTypes.TestCase[] = [];
+    for (const testItem of testItems) {
+      for (const item of this._testTree.collectTestsInside(testItem)) {
+        const treeItem = upstreamTreeItem(item);
+        if (treeItem.kind === 'case')
+          tests.push(...treeItem.tests);
+        else if (treeItem.kind === 'test')
+          tests.push(treeItem.test);
+      }
+    }
+    if (!tests.length)
+      return;
+    const quarantined = tests.every(test => this._settingsModel.isQuarantined(test.id));
+    // Title path without the root and project suites, matches the grep title of the test.
+    await this._settingsModel.setQuarantined(tests.map(test => ({ testId: test.id, titlePath: test.titlePath().slice(2) })), !quarantined);
+  }
+
+  private _isQuarantined(testItem: vscodeTypes.TestItem): boolean {
+    const treeItem = upstreamTreeItem(testItem);
+    if (treeItem?.kind === 'case')
+      return treeItem.tests.some(test => this._settingsModel.isQuarantined(test.id));
+    if (treeItem?.kind === 'test')
+      return this._settingsModel.isQuarantined(treeItem.test.id);
+    return false;
+  }
+
   private async _runWatchedTests(files: string[], testItems: vscodeTypes.TestItem[]) {
     // Run either locations or test ids to always be compatible with the test server (it can run either or).
     if (files.length) {
@@ -840,33 +1106,86 @@ export class Extension implements RunHooks {
       await this._queueWatchRun(new this._vscode.TestRunRequest(testItems), 'items');
   }
 
-  private async _createFileForNewTest(model: TestModel, project: TestProject) {
+  private async _recordNew(options: { har: boolean }) {
+    const model = this._models.selectedModel();
+    if (!model)
+      return this._vscode.window.showWarningMessage(this._vscode.l10n.t('No Playwright tests found.'));
+
+    const project = model.enabledProjects()[0];
+    if (!project)
+      return this._vscode.window.showWarningMessage(this._vscode.l10n.t(`Project is disabled in the Playwright sidebar.`));
+
+    const file = await this._createFileForNewTest(model, project, options);
+    if (!file)
+      return;
+
+    const showBrowser = this._settingsModel.showBrowser.get() ?? false;
+    try {
+      await this._settingsModel.showBrowser.set(true);
+      await this._showBrowserForRecording(file, project);
+      await this._reusedBrowser.record(model, project.project);
+    } finally {
+      await this._settingsModel.showBrowser.set(showBrowser);
+    }
+    if (options.har)
+      await this._captureHar(file, project);
+  }
+
+  private async _createFileForNewTest(model: TestModel, project: TestProject, options?: { har?: boolean }) {
     let file;
     for (let i = 1; i < 100; ++i) {
       file = path.join(project.project.testDir, `test-${i}.spec.ts`);
-      if (fs.existsSync(file))
+      if (fs.existsSync(file) || (options?.har && fs.existsSync(harFileForTest(file))))
         continue;
       break;
     }
     if (!file)
       return;
 
-    await fs.promises.writeFile(file, `import { test, expect } from '@playwright/test';
-
-test('test', async ({ page }) => {
-  // Recording...
-});`);
+    const lines = [`import { test, expect } from '@playwright/test';`];
+    if (options?.har)
+      lines.push(`import path from 'path';`);
+    lines.push('', `test('test', async ({ page }) => {`);
+    if (options?.har)
+      lines.push(`  ${routeFromHarCall(file, true)}`);
+    lines.push(`  // Recording...`, `});`);
+    await fs.promises.writeFile(file, lines.join('\n'));
 
     await model.handleWorkspaceChange({ created: new Set([file]), changed: new Set(), deleted: new Set() });
     await model.ensureTests([file]);
 
     const document = await this._vscode.workspace.openTextDocument(file);
     const editor = await this._vscode.window.showTextDocument(document);
-    editor.selection = new this._vscode.Selection(new this._vscode.Position(3, 2), new this._vscode.Position(3, 2 + '// Recording...'.length));
+    const line = lines.length - 2;
+    editor.selection = new this._vscode.Selection(new this._vscode.Position(line, 2), new this._vscode.Position(line, 2 + '// Recording...'.length));
 
     return file;
   }
 
+  /**
+   * The reused browser keeps its context open, so responses can't be captured while recording.
+   * Replays the recorded test once in a context of its own, closing it writes the HAR, then
+   * switches the test to serve from the HAR.
+   */
+  private async _captureHar(file: string, project: TestProject) {
+    const document = this._vscode.workspace.textDocuments.find(doc => uriToPath(doc.uri) === file);
+    if (document?.isDirty)
+      await document.save();
+
+    const fileItem = this._testTree.testItemForFile(file);
+    const testItems = fileItem ? this._testTree.collectTestsInside(fileItem) : [];
+    const testItem = testItems.length === 1 ? testItems[0] : testItems.find(t => t.label === project.name);
+    if (testItem)
+      await this._queueTestRun(new this._vscode.TestRunRequest([testItem]), 'run', { freshContext: true });
+
+    const content = await fs.promises.readFile(file, 'utf-8');
+    if (!fs.existsSync(harFileForTest(file)) || !content.includes(routeFromHarCall(file, true))) {
+      void this._vscode.window.showWarningMessage(this._vscode.l10n.t('Unable to capture network for {0}, the recorded test has to pass once to write the HAR.', path.basename(file)));
+      return;
+    }
+    await fs.promises.writeFile(file, content.replace(routeFromHarCall(file, true), routeFromHarCall(file, false)));
+  }
+
   private async _renameRecordedFile(tempFile: string, sourceTestPath: string, model: TestModel, project: TestProject): Promise<string | undefined> {
     // Extract a meaningful name from the source test path
     const sourceBasename = path.basename(sourceTestPath, path.extname(sourceTestPath));
@@ -1110,6 +1429,14 @@ test('test', async ({ page }) => {
     return testMessage;
   }
 
+  private _testMessageForConsoleError(message: TraceConsoleMessage): vscodeTypes.TestMessage {
+    const text = message.type === 'pageerror' ? this._vscode.l10n.t('Uncaught page error: {0}', message.text) : this._vscode.l10n.t('Browser console error: {0}', message.text);
+    const testMessage = new this._vscode.TestMessage(text);
+    if (message.location?.url.startsWith('file:'))
+      testMessage.location = new this._vscode.Location(this._vscode.Uri.parse(message.location.url), new this._vscode.Position(message.location.lineNumber, message.location.columnNumber));
+    return testMessage;
+  }
+
   private _asPosition(location: { line: number, column: number }): vscodeTypes.Position {
     return new this._vscode.Position(Math.max(location.line - 1, 0), location.column - 1);
   }
@@ -1149,13 +1476,20 @@ test('test', async ({ page }) => {
   private _showTraceOnTestProgress(testItem: vscodeTypes.TestItem) {
     const traceUrl = (testItem as any)[traceUrlSymbol];
     void this._models.selectedModel()?.traceViewer()?.open(traceUrl);
+    void this._traceActionsView.showTrace(traceUrl);
+    void this._networkView.showTrace(traceUrl);
+    void this._consoleLogView.showTrace(traceUrl);
   }
 
   private _treeItemSelected(treeItem: vscodeTypes.TreeItem | null) {
     if (!treeItem)
       return;
+    this._attachmentsView.showAttachments((treeItem as any)[attachmentsSymbol]);
     const traceUrl = (treeItem as any)[traceUrlSymbol];
     void this._models.selectedModel()?.traceViewer()?.open(traceUrl);
+    void this._traceActionsView.showTrace(traceUrl);
+    void this._networkView.showTrace(traceUrl);
+    void this._consoleLogView.showTrace(traceUrl);
   }
 
   private _queueCommand<T>(callback: () => Promise<T>, defaultValue: T): Promise<T> {
@@ -1219,14 +1553,18 @@ class TreeItemObserver implements vscodeTypes.Disposable{
   }
 }
 
-function ancestorProject(test: reporterTypes.TestCase): reporterTypes.FullProject {
-  let suite: reporterTypes.Suite = test.parent;
-  while (!suite.project())
-    suite = suite.parent!;
-  return suite.project()!;
+function harFileForTest(file: string): string {
+  return file.replace(/\.spec\.ts$/, '.har');
+}
+
+function routeFromHarCall(file: string, update: boolean): string {
+  // Relative to the test file, `__dirname` is not defined in ES modules.
+  return `await page.routeFromHAR(path.join(path.dirname(test.info().file), '${path.basename(harFileForTest(file))}'), { update: ${update}, updateContent: 'embed' });`;
 }
 
 const traceUrlSymbol = Symbol('traceUrl');
+const coverageDetailsSymbol = Symbol('coverageDetails');
+const attachmentsSymbol = Symbol('attachments');
 
 /**
  * sort paths intuitively.
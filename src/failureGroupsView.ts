@@ -0,0 +1,128 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'path';
+import { DisposableBase } from './disposableBase';
+import type { RunReport } from './runReport';
+import { ancestorProject } from './testModel';
+import * as reporterTypes from './upstream/reporter';
+import { stripAnsi } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+export type FailureGroup = {
+  kind: 'group';
+  signature: string;
+  // Error of the first failed test, shown for the whole group.
+  error: string;
+  tests: reporterTypes.TestCase[];
+};
+
+type FailureNode = FailureGroup | { kind: 'test', test: reporterTypes.TestCase };
+
+/**
+ * Groups the failures of the latest run by their error, so that many tests failing
+ * for the same reason show up as a single entry.
+ */
+export class FailureGroupsView extends DisposableBase implements vscodeTypes.TreeDataProvider<FailureNode> {
+  private _vscode: vscodeTypes.VSCode;
+  private _abbreviateStack: (text: string) => string;
+  private _groups: FailureGroup[] = [];
+  private _onDidChangeTreeData: vscodeTypes.EventEmitter<void>;
+  readonly onDidChangeTreeData: vscodeTypes.Event<void>;
+
+  constructor(vscode: vscodeTypes.VSCode, abbreviateStack: (text: string) => string) {
+    super();
+    this._vscode = vscode;
+    this._abbreviateStack = abbreviateStack;
+    this._onDidChangeTreeData = new vscode.EventEmitter();
+    this.onDidChangeTreeData = this._onDidChangeTreeData.event;
+    this._disposables = [
+      this._onDidChangeTreeData,
+      vscode.window.registerTreeDataProvider('pw.extension.failureGroupsView', this),
+    ];
+  }
+
+  /**
+   * Called once the run has finished.
+   */
+  setLatestRun(runReport: RunReport) {
+    const groups = new Map<string, FailureGroup>();
+    for (const test of runReport.tests()) {
+      // Flaky tests passed eventually, they are not grouped with the failures.
+      if (test.outcome() !== 'unexpected')
+        continue;
+      const error = [...test.results].reverse().find(result => result.status !== test.expectedStatus && result.errors.length)?.errors[0];
+      if (!error)
+        continue;
+      const signature = this._signature(test, error);
+      let group = groups.get(signature);
+      if (!group) {
+        group = { kind: 'group', signature, error: this._abbreviateStack(stripAnsi(error.message || error.value || '')), tests: [] };
+        groups.set(signature, group);
+      }
+      group.tests.push(test);
+    }
+    this._groups = [...groups.values()].sort((a, b) => b.tests.length - a.tests.length);
+    this._onDidChangeTreeData.fire();
+  }
+
+  // First line of the message with the volatile numbers masked, and the frame the error
+  // was thrown from unless it is the test itself.
+  private _signature(test: reporterTypes.TestCase, error: reporterTypes.TestError): string {
+    const message = stripAnsi(error.message || error.value || '').split('\n')[0];
+    const tokens = [this._abbreviateStack(message).replace(/\d+(\.\d+)?/g, 'N')];
+    const frame = stripAnsi(error.stack || '').split('\n').find(line => /^\s+at /.test(line));
+    const file = frame?.match(/\(?([^()\s]+):\d+:\d+\)?$/)?.[1];
+    if (frame && file && path.resolve(file) !== path.resolve(test.location.file))
+      tokens.push(this._abbreviateStack(frame.trim()));
+    return tokens.join('\n');
+  }
+
+  getChildren(node?: FailureNode): FailureNode[] {
+    if (!node)
+      return this._groups;
+    if (node.kind === 'group')
+      return node.tests.map(test => ({ kind: 'test', test }));
+    return [];
+  }
+
+  getTreeItem(node: FailureNode): vscodeTypes.TreeItem {
+    if (node.kind === 'group') {
+      const item = new this._vscode.TreeItem(node.error.split('\n')[0], this._vscode.TreeItemCollapsibleState.Collapsed);
+      item.iconPath = new this._vscode.ThemeIcon('error');
+      item.description = this._vscode.l10n.t('{0} failed tests', node.tests.length);
+      item.tooltip = node.error;
+      item.contextValue = 'failureGroup';
+      return item;
+    }
+
+    const { test } = node;
+    const item = new this._vscode.TreeItem(test.titlePath().slice(3).join(' › '), this._vscode.TreeItemCollapsibleState.None);
+    const project = ancestorProject(test).name;
+    if (project)
+      item.description = project;
+    const line = Math.max(test.location.line - 1, 0);
+    item.command = {
+      title: this._vscode.l10n.t('Go to test'),
+      command: 'vscode.open',
+      arguments: [
+        this._vscode.Uri.file(test.location.file),
+        { selection: new this._vscode.Range(line, 0, line, 0) },
+      ],
+    };
+    return item;
+  }
+}
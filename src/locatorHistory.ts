@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscodeTypes from './vscodeTypes';
+
+export type LocatorHistoryEntry = {
+  kind: 'locator' | 'ariaSnapshot';
+  value: string;
+  favorite: boolean;
+  timestamp: number;
+};
+
+export const locatorHistoryStateKey = 'pw.locator-history';
+
+const kMaxEntries = 50;
+
+/**
+ * Picked and edited locators and aria snapshots of the workspace, most recent first.
+ * Favorites are kept regardless of how many entries were added after them.
+ */
+export class LocatorHistory {
+  private _context: vscodeTypes.ExtensionContext;
+  private _entries: LocatorHistoryEntry[];
+
+  constructor(context: vscodeTypes.ExtensionContext) {
+    this._context = context;
+    this._entries = this._context.workspaceState.get(locatorHistoryStateKey) as LocatorHistoryEntry[] | undefined || [];
+  }
+
+  entries(): LocatorHistoryEntry[] {
+    return this._entries;
+  }
+
+  add(kind: LocatorHistoryEntry['kind'], value: string) {
+    if (!value.trim())
+      return;
+    const existing = this._entries.find(entry => entry.kind === kind && entry.value === value);
+    this._entries = this._entries.filter(entry => entry !== existing);
+    this._entries.unshift({ kind, value, favorite: !!existing?.favorite, timestamp: Date.now() });
+
+    let count = 0;
+    this._entries = this._entries.filter(entry => entry.favorite || ++count <= kMaxEntries);
+    this._save();
+  }
+
+  toggleFavorite(index: number) {
+    const entry = this._entries[index];
+    if (!entry)
+      return;
+    entry.favorite = !entry.favorite;
+    this._save();
+  }
+
+  remove(index: number) {
+    this._entries.splice(index, 1);
+    this._save();
+  }
+
+  private _save() {
+    void this._context.workspaceState.update(locatorHistoryStateKey, this._entries);
+  }
+}
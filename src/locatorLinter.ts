@@ -0,0 +1,253 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BrittleLocator, BrittleLocatorKind, findBrittleLocators, SourceRange } from './babelHighlightUtil';
+import { DisposableBase } from './disposableBase';
+import { locatorMethodRegex } from './methodNames';
+import type { ReusedBrowser } from './reusedBrowser';
+import type { TestModelCollection } from './testModel';
+import { escapeRegex, uriToPath } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+export type LocatorSuggestion = {
+  // Locator to use instead, relative to the receiver of the brittle one.
+  locator: string;
+  // Replacement for the brittle call, keeps the action of `page.click(selector)` and alike.
+  replacement: string;
+};
+
+// Typing quickly should not re-parse the file on every keystroke.
+const kLintDelay = 300;
+
+const implicitRoles: Record<string, string> = {
+  a: 'link',
+  button: 'button',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  img: 'img',
+  input: 'textbox',
+  li: 'listitem',
+  nav: 'navigation',
+  ol: 'list',
+  option: 'option',
+  select: 'combobox',
+  table: 'table',
+  td: 'cell',
+  textarea: 'textbox',
+  th: 'columnheader',
+  tr: 'row',
+  ul: 'list',
+};
+
+const inputRoles: Record<string, string> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  radio: 'radio',
+  submit: 'button',
+};
+
+/**
+ * Flags locators that are likely to break when the page changes and offers quick fixes
+ * that replace them with role and test id based locators. When a browser is open, the
+ * suggested locator can be highlighted to check that it finds the same element.
+ */
+export class LocatorLinter extends DisposableBase implements vscodeTypes.CodeActionProvider {
+  private _vscode: vscodeTypes.VSCode;
+  private _reusedBrowser: ReusedBrowser;
+  private _models: TestModelCollection;
+  private _diagnostics: vscodeTypes.DiagnosticCollection;
+  private _pendingLints = new Map<vscodeTypes.TextDocument, NodeJS.Timeout>();
+  // Code actions are requested for the document that was just linted, keep its locators.
+  private _lastParse: { document: vscodeTypes.TextDocument, version: number, locators: BrittleLocator[] } | undefined;
+
+  constructor(vscode: vscodeTypes.VSCode, reusedBrowser: ReusedBrowser, models: TestModelCollection) {
+    super();
+    this._vscode = vscode;
+    this._reusedBrowser = reusedBrowser;
+    this._models = models;
+    this._diagnostics = vscode.languages.createDiagnosticCollection('pw.locators.diagnostic');
+    const selector = ['javascript', 'javascriptreact', 'typescript', 'typescriptreact'].map(language => ({ language, scheme: 'file' }));
+    this._disposables = [
+      this._diagnostics,
+      vscode.languages.registerCodeActionsProvider(selector, this, { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }),
+      vscode.window.onDidChangeVisibleTextEditors(() => this._lintVisibleEditors()),
+      // Test files are known once the configs are listed.
+      models.onUpdated(() => this._lintVisibleEditors()),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (vscode.window.visibleTextEditors.some(editor => editor.document === event.document))
+          this._scheduleLint(event.document);
+      }),
+      {
+        dispose: () => {
+          for (const timeout of this._pendingLints.values())
+            clearTimeout(timeout);
+          this._pendingLints.clear();
+        }
+      },
+    ];
+    this._lintVisibleEditors();
+  }
+
+  private _scheduleLint(document: vscodeTypes.TextDocument) {
+    clearTimeout(this._pendingLints.get(document));
+    this._pendingLints.set(document, setTimeout(() => {
+      this._pendingLints.delete(document);
+      this._lint(document);
+    }, kLintDelay));
+  }
+
+  private _lintVisibleEditors() {
+    this._diagnostics.clear();
+    for (const editor of this._vscode.window.visibleTextEditors)
+      this._lint(editor.document);
+  }
+
+  private _lint(document: vscodeTypes.TextDocument) {
+    const diagnostics: vscodeTypes.Diagnostic[] = this._brittleLocators(document).map(locator => ({
+      severity: this._vscode.DiagnosticSeverity.Warning,
+      source: 'playwright',
+      range: this._asRange(locator.range),
+      message: this._message(locator.kind),
+    }));
+    this._diagnostics.set(document.uri, diagnostics);
+  }
+
+  private _brittleLocators(document: vscodeTypes.TextDocument): BrittleLocator[] {
+    // Application code calls first() or locator() on objects that are not locators.
+    const file = uriToPath(document.uri);
+    if (!this._models.enabledModels().some(model => model.enabledFiles().has(file)))
+      return [];
+    if (this._lastParse?.document === document && this._lastParse.version === document.version)
+      return this._lastParse.locators;
+    const text = document.getText();
+    const locators = text.match(locatorMethodRegex) ? findBrittleLocators(text, file) : [];
+    this._lastParse = { document, version: document.version, locators };
+    return locators;
+  }
+
+  private _testIdAttribute(): string | undefined {
+    const model = this._models.selectedModel();
+    return model?.enabledProjects()[0]?.project.use?.testIdAttribute ?? model?.config.testIdAttributeName;
+  }
+
+  private _message(kind: BrittleLocatorKind): string {
+    switch (kind) {
+      case 'xpath': return this._vscode.l10n.t('XPath selectors break when the page structure changes, prefer getByRole() or getByTestId().');
+      case 'nthChild': return this._vscode.l10n.t('Positional CSS selectors break when the page structure changes, prefer getByRole() or getByTestId().');
+      case 'dynamicText': return this._vscode.l10n.t('Text with numbers is likely to change between runs, match it with a regular expression.');
+      case 'firstWithoutFilter': return this._vscode.l10n.t('first() picks whichever element happens to match first, narrow the locator down with filter().');
+    }
+  }
+
+  provideCodeActions(document: vscodeTypes.TextDocument, range: vscodeTypes.Range | vscodeTypes.Selection): vscodeTypes.CodeAction[] {
+    const result: vscodeTypes.CodeAction[] = [];
+    const testIdAttribute = this._testIdAttribute();
+    for (const locator of this._brittleLocators(document)) {
+      const locatorRange = this._asRange(locator.range);
+      if (locatorRange.end.line < range.start.line || locatorRange.start.line > range.end.line)
+        continue;
+      if (locator.kind === 'firstWithoutFilter') {
+        const filter = new this._vscode.CodeAction(this._vscode.l10n.t('Narrow down with filter()'), this._vscode.CodeActionKind.QuickFix);
+        filter.edit = new this._vscode.WorkspaceEdit();
+        filter.edit.set(document.uri, [new this._vscode.SnippetTextEdit(locatorRange, new this._vscode.SnippetString(`filter({ hasText: '\${1:text}' }).first()`))]);
+        result.push(filter);
+        continue;
+      }
+      const canHighlight = !!this._reusedBrowser.pageCount() && /^(this\._?)?page$/.test(locator.receiver);
+      for (const suggestion of suggestLocators(locator, testIdAttribute)) {
+        const replace = new this._vscode.CodeAction(this._vscode.l10n.t('Replace with {0}', suggestion.locator), this._vscode.CodeActionKind.QuickFix);
+        replace.edit = new this._vscode.WorkspaceEdit();
+        replace.edit.replace(document.uri, locatorRange, suggestion.replacement);
+        result.push(replace);
+
+        if (!canHighlight)
+          continue;
+        const highlight = new this._vscode.CodeAction(this._vscode.l10n.t('Highlight {0} in browser', suggestion.locator), this._vscode.CodeActionKind.QuickFix);
+        highlight.command = {
+          title: highlight.title,
+          command: 'pw.extension.command.highlightLocator',
+          arguments: [suggestion.locator],
+        };
+        result.push(highlight);
+      }
+    }
+    return result;
+  }
+
+  async highlight(locator: string) {
+    if (this._reusedBrowser.pageCount())
+      await this._reusedBrowser.highlight(locator);
+  }
+
+  private _asRange(range: SourceRange): vscodeTypes.Range {
+    return new this._vscode.Range(range.start.line - 1, range.start.column - 1, range.end.line - 1, range.end.column - 1);
+  }
+}
+
+export function suggestLocators(locator: BrittleLocator, testIdAttribute = 'data-testid'): LocatorSuggestion[] {
+  const locators: string[] = [];
+  if (locator.kind === 'dynamicText' && locator.method === 'getByText') {
+    locators.push(`getByText(${numbersAsRegex(locator.selector!)})`);
+  } else if (locator.selector !== undefined && locator.kind !== 'firstWithoutFilter') {
+    const hints = selectorHints(locator.selector, testIdAttribute);
+    if (hints.testId)
+      locators.push(`getByTestId(${quote(hints.testId)})`);
+    if (hints.role && hints.name)
+      locators.push(`getByRole(${quote(hints.role)}, { name: ${locator.kind === 'dynamicText' ? numbersAsRegex(hints.name) : quote(hints.name)} })`);
+    else if (hints.name && locator.kind === 'dynamicText')
+      locators.push(`getByText(${numbersAsRegex(hints.name)})`);
+  }
+  const isAction = locator.method !== 'locator' && locator.method !== 'getByText';
+  return locators.map(suggestion => ({
+    locator: suggestion,
+    replacement: isAction ? `${suggestion}.${locator.method}(${locator.restArguments})` : suggestion,
+  }));
+}
+
+// Best-effort extraction of the test id, role and accessible name of the element a CSS
+// or XPath selector targets, only the last step of the selector is considered.
+// getByTestId() only matches the attribute configured as `testIdAttribute`.
+function selectorHints(selector: string, testIdAttribute: string): { testId?: string, role?: string, name?: string } {
+  const lastMatch = (regex: RegExp) => [...selector.matchAll(regex)].pop()?.[1];
+  const testId = lastMatch(new RegExp(`(?<![\\w-])${escapeRegex(testIdAttribute)}\\s*=\\s*["']?([^"'\\]]+)`, 'g'));
+  const name = lastMatch(/(?:aria-label\s*=\s*|has-text\(\s*|:text\(\s*|^text=|text\(\)\s*,?\s*=?\s*|normalize-space\([^)]*\)\s*=\s*)["']?([^"'\])]+)/g);
+
+  let role = lastMatch(/\brole\s*=\s*["']?([\w-]+)/g);
+  if (!role) {
+    // Drop attribute conditions and function arguments, then take the tag name of the last step.
+    let steps = selector;
+    while (/\[[^[\]]*\]/.test(steps))
+      steps = steps.replace(/\[[^[\]]*\]/g, '');
+    steps = steps.replace(/([\w:-])\([^()]*\)/g, '$1').replace(/[()]/g, '');
+    const tagName = steps.split(/[\s>+~/]+/).filter(Boolean).pop()?.match(/^[a-zA-Z][\w-]*/)?.[0].toLowerCase();
+    const inputType = lastMatch(/\btype\s*=\s*["']?(\w+)/g);
+    role = tagName === 'input' && inputType ? inputRoles[inputType] : tagName ? implicitRoles[tagName] : undefined;
+  }
+  return { testId, role, name: name?.trim() };
+}
+
+function numbersAsRegex(text: string): string {
+  const pattern = text.split(/\d+/).map(part => part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')).join('\\d+');
+  return `/${pattern}/`;
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, `\\'`)}'`;
+}
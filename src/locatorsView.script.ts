@@ -20,11 +20,73 @@ import { createAction, vscode } from './common';
 const locatorInput = document.getElementById('locator') as HTMLInputElement;
 const ariaTextArea = document.getElementById('ariaSnapshot') as HTMLTextAreaElement;
 const copyToClipboardCheckbox = document.getElementById('copyToClipboardCheckbox') as HTMLInputElement;
+const matchCountElement = document.getElementById('locatorMatchCount')!;
+const matchesElement = document.getElementById('locatorMatches')!;
+const matchTemplate = document.getElementById('matchTemplate') as HTMLTemplateElement;
+
+const historySection = document.getElementById('historySection')!;
+const historyElement = document.getElementById('history')!;
+const historyEntryTemplate = document.getElementById('historyEntryTemplate') as HTMLTemplateElement;
+
+type HistoryEntry = {
+  kind: 'locator' | 'ariaSnapshot';
+  value: string;
+  favorite: boolean;
+};
+
+type ElementMatch = {
+  tagName: string;
+  role?: string;
+  name?: string;
+  text: string;
+};
+
+function renderMatch(match: ElementMatch, index: number): HTMLElement {
+  const element = (matchTemplate.content.cloneNode(true) as DocumentFragment).firstElementChild as HTMLElement;
+  element.querySelector('.match-tag')!.textContent = `<${match.tagName.toLowerCase()}>`;
+  const label = element.querySelector('.match-label')!;
+  label.textContent = [match.role && (match.name ? `${match.role} "${match.name}"` : match.role), match.text].filter(Boolean).join(' · ');
+  label.setAttribute('title', match.text);
+  element.querySelector('.refine-nth')!.addEventListener('click', () => vscode.postMessage({ method: 'refineLocator', params: { index, kind: 'nth' } }));
+  const refineFilter = element.querySelector('.refine-filter') as HTMLElement;
+  refineFilter.hidden = !(match.name || match.text).trim();
+  refineFilter.addEventListener('click', () => vscode.postMessage({ method: 'refineLocator', params: { index, kind: 'filter' } }));
+  return element;
+}
+
+function renderHistoryEntry(entry: HistoryEntry, index: number): HTMLElement {
+  const element = (historyEntryTemplate.content.cloneNode(true) as DocumentFragment).firstElementChild as HTMLElement;
+  const postAction = (action: string) => vscode.postMessage({ method: 'historyAction', params: { index, action } });
+  const favorite = element.querySelector('.history-favorite')!;
+  favorite.textContent = entry.favorite ? '★' : '☆';
+  const favoriteTitle = (entry.favorite ? historySection.dataset.unfavorite : historySection.dataset.favorite) || '';
+  favorite.setAttribute('title', favoriteTitle);
+  favorite.setAttribute('aria-label', favoriteTitle);
+  favorite.setAttribute('aria-pressed', String(entry.favorite));
+  favorite.addEventListener('click', () => postAction('favorite'));
+  (element.querySelector('.history-kind') as HTMLElement).hidden = entry.kind !== 'ariaSnapshot';
+  const value = element.querySelector('.history-value')!;
+  value.textContent = entry.value.trim().split('\n')[0];
+  value.setAttribute('title', entry.value);
+  element.querySelector('.history-highlight')!.addEventListener('click', () => postAction('highlight'));
+  element.querySelector('.history-insert')!.addEventListener('click', () => postAction('insert'));
+  element.querySelector('.history-remove')!.addEventListener('click', () => postAction('remove'));
+  return element;
+}
 
 locatorInput.addEventListener('input', () => {
   vscode.postMessage({ method: 'locatorChanged', params: { locator: locatorInput.value } });
 });
 
+// Only committed values go to the history, not every keystroke.
+locatorInput.addEventListener('change', () => {
+  vscode.postMessage({ method: 'addToHistory', params: { kind: 'locator' } });
+});
+
+ariaTextArea.addEventListener('change', () => {
+  vscode.postMessage({ method: 'addToHistory', params: { kind: 'ariaSnapshot' } });
+});
+
 ariaTextArea.addEventListener('input', () => {
   vscode.postMessage({ method: 'ariaSnapshotChanged', params: { ariaSnapshot: ariaTextArea.value } });
 });
@@ -45,6 +107,12 @@ window.addEventListener('message', event => {
     locatorInput.value = params.locator.locator;
     locatorError.textContent = params.locator.error || '';
     locatorError.style.display = params.locator.error ? 'inherit' : 'none';
+    matchCountElement.textContent = params.matchCount;
+    matchCountElement.style.display = params.matchCount ? 'inherit' : 'none';
+    matchesElement.textContent = '';
+    // A single match needs no refinement.
+    if (params.matches?.length > 1)
+      params.matches.forEach((match: ElementMatch, index: number) => matchesElement.appendChild(renderMatch(match, index)));
     ariaTextArea.value = params.ariaSnapshot.yaml;
     ariaSnapshotError.textContent = params.ariaSnapshot.error || '';
     ariaSnapshotError.style.display = params.ariaSnapshot.error ? 'inherit' : 'none';
@@ -57,6 +125,14 @@ window.addEventListener('message', event => {
       if (actionElement)
         (action.location === 'actions-2' ? actions2Element : actionsElement).appendChild(actionElement);
     }
+  } else if (method === 'history') {
+    const entries: HistoryEntry[] = params.entries;
+    historySection.style.display = entries.length ? 'flex' : 'none';
+    historyElement.textContent = '';
+    // Favorites first, the host addresses entries by their index in the history.
+    const indices = entries.map((_, index) => index);
+    for (const index of [...indices.filter(i => entries[i].favorite), ...indices.filter(i => !entries[i].favorite)])
+      historyElement.appendChild(renderHistoryEntry(entries[index], index));
   } else if (method === 'settings') {
     if ('pickLocatorCopyToClipboard' in params.settings)
       copyToClipboardCheckbox.checked = params.settings.pickLocatorCopyToClipboard;
@@ -15,7 +15,8 @@
  */
 
 import { DisposableBase } from './disposableBase';
-import { ReusedBrowser } from './reusedBrowser';
+import type { LocatorHistory, LocatorHistoryEntry } from './locatorHistory';
+import { ElementMatch, ReusedBrowser } from './reusedBrowser';
 import { pickElementAction } from './settingsView';
 import { getNonce, html } from './utils';
 import type { SettingsModel } from './settingsModel';
@@ -26,17 +27,21 @@ export class LocatorsView extends DisposableBase implements vscodeTypes.WebviewV
   private _view: vscodeTypes.WebviewView | undefined;
   private _extensionUri: vscodeTypes.Uri;
   private _locator: { locator: string, error?: string } = { locator: '' };
+  private _matches: ElementMatch[] | undefined;
+  private _matchesUnsupported = false;
   private _ariaSnapshot: { yaml: string, error?: string } = { yaml: '' };
   private _settingsModel: SettingsModel;
   private _reusedBrowser: ReusedBrowser;
+  private _history: LocatorHistory;
   private _backendVersion = 0;
 
-  constructor(vscode: vscodeTypes.VSCode, settingsModel: SettingsModel, reusedBrowser: ReusedBrowser, extensionUri: vscodeTypes.Uri) {
+  constructor(vscode: vscodeTypes.VSCode, settingsModel: SettingsModel, reusedBrowser: ReusedBrowser, history: LocatorHistory, extensionUri: vscodeTypes.Uri) {
     super();
     this._vscode = vscode;
     this._extensionUri = extensionUri;
     this._settingsModel = settingsModel;
     this._reusedBrowser = reusedBrowser;
+    this._history = history;
     this._disposables = [
       vscode.window.registerWebviewViewProvider('pw.extension.locatorsView', this),
       this._reusedBrowser.onInspectRequested(async ({ locator, ariaSnapshot, backendVersion }) => {
@@ -44,7 +49,14 @@ export class LocatorsView extends DisposableBase implements vscodeTypes.WebviewV
         this._backendVersion = backendVersion;
         this._locator = { locator: locator || '' };
         this._ariaSnapshot = { yaml: ariaSnapshot || '' };
+        this._matches = undefined;
+        if (locator)
+          this._history.add('locator', locator);
+        if (ariaSnapshot)
+          this._history.add('ariaSnapshot', ariaSnapshot);
         this._updateValues();
+        this._updateHistory();
+        await this._updateMatches();
       }),
       reusedBrowser.onRunningTestsChanged(() => this._updateActions()),
       reusedBrowser.onPageCountChanged(() => this._updateActions()),
@@ -66,22 +78,17 @@ export class LocatorsView extends DisposableBase implements vscodeTypes.WebviewV
         void this._vscode.commands.executeCommand(data.params.command);
       } else if (data.method === 'locatorChanged') {
         this._locator.locator = data.params.locator;
-        this._reusedBrowser.highlight(this._locator.locator).then(() => {
-          this._locator.error = undefined;
-          this._updateValues();
-        }).catch(e => {
-          this._locator.error = e.message;
-          this._updateValues();
-        });
+        this._highlightLocator();
+      } else if (data.method === 'refineLocator') {
+        this._refineLocator(data.params.index, data.params.kind);
       } else if (data.method === 'ariaSnapshotChanged') {
         this._ariaSnapshot.yaml = data.params.ariaSnapshot;
-        this._reusedBrowser.highlightAria(this._ariaSnapshot.yaml).then(() => {
-          this._ariaSnapshot.error = undefined;
-          this._updateValues();
-        }).catch(e => {
-          this._ariaSnapshot.error = e.message;
-          this._updateValues();
-        });
+        this._highlightAriaSnapshot();
+      } else if (data.method === 'addToHistory') {
+        this._history.add(data.params.kind, data.params.kind === 'locator' ? this._locator.locator : this._ariaSnapshot.yaml);
+        this._updateHistory();
+      } else if (data.method === 'historyAction') {
+        void this._historyAction(data.params.index, data.params.action);
       } else if (data.method === 'toggle') {
         void this._vscode.commands.executeCommand(`pw.extension.toggle.${data.params.setting}`);
       }
@@ -93,10 +100,98 @@ export class LocatorsView extends DisposableBase implements vscodeTypes.WebviewV
       this._updateActions();
       this._updateValues();
       this._updateSettings();
+      this._updateHistory();
     }));
     this._updateActions();
     this._updateValues();
     this._updateSettings();
+    this._updateHistory();
+  }
+
+  private _highlightLocator() {
+    this._reusedBrowser.highlight(this._locator.locator).then(() => {
+      this._locator.error = undefined;
+      this._updateValues();
+      return this._updateMatches();
+    }).catch(e => {
+      this._locator.error = e.message;
+      this._matches = undefined;
+      this._updateValues();
+    });
+  }
+
+  private _highlightAriaSnapshot() {
+    this._reusedBrowser.highlightAria(this._ariaSnapshot.yaml).then(() => {
+      this._ariaSnapshot.error = undefined;
+      this._updateValues();
+    }).catch(e => {
+      this._ariaSnapshot.error = e.message;
+      this._updateValues();
+    });
+  }
+
+  private async _historyAction(index: number, action: 'favorite' | 'remove' | 'highlight' | 'insert') {
+    const entry = this._history.entries()[index];
+    if (!entry)
+      return;
+    if (action === 'favorite') {
+      this._history.toggleFavorite(index);
+    } else if (action === 'remove') {
+      this._history.remove(index);
+    } else if (action === 'highlight') {
+      // Bring the entry back into the editor so that it can be tweaked further.
+      if (entry.kind === 'locator') {
+        this._locator = { locator: entry.value };
+        this._matches = undefined;
+        this._highlightLocator();
+      } else {
+        this._ariaSnapshot = { yaml: entry.value };
+        this._highlightAriaSnapshot();
+      }
+      this._updateValues();
+    } else if (action === 'insert') {
+      await this._insertAtCursor(entry);
+    }
+    this._updateHistory();
+  }
+
+  private async _insertAtCursor(entry: LocatorHistoryEntry) {
+    const editor = this._vscode.window.activeTextEditor;
+    if (!editor) {
+      await this._vscode.env.clipboard.writeText(entry.value);
+      void this._vscode.window.showInformationMessage(this._vscode.l10n.t('No active editor, the entry was copied to the clipboard.'));
+      return;
+    }
+    await editor.edit(editBuilder => {
+      editBuilder.replace(editor.selection, entry.value);
+    });
+  }
+
+  private async _updateMatches() {
+    const locator = this._locator.locator;
+    const matches = locator ? await this._reusedBrowser.matchingElements(locator) : undefined;
+    if (locator !== this._locator.locator)
+      return;
+    this._matchesUnsupported = matches === 'unsupported';
+    this._matches = matches === 'unsupported' ? undefined : matches;
+    this._updateValues();
+  }
+
+  // Narrows the locator down to the clicked match, either by its position or by its text.
+  private _refineLocator(index: number, kind: 'nth' | 'filter') {
+    const match = this._matches?.[index];
+    if (!match)
+      return;
+    const text = (match.name || match.text).trim();
+    if (kind === 'nth')
+      this._locator = { locator: `${this._locator.locator}.nth(${index})` };
+    else if (text)
+      this._locator = { locator: `${this._locator.locator}.filter({ hasText: ${quote(text)} })` };
+    else
+      return;
+    this._matches = undefined;
+    this._updateValues();
+    this._highlightLocator();
   }
 
   private _updateActions() {
@@ -116,18 +211,41 @@ export class LocatorsView extends DisposableBase implements vscodeTypes.WebviewV
       method: 'update',
       params: {
         locator: this._locator,
+        matches: this._matches,
+        matchCount: this._matchCountText(),
         ariaSnapshot: this._ariaSnapshot,
         hideAria: this._backendVersion && this._backendVersion < 1.50
       }
     });
   }
 
+  private _updateHistory() {
+    void this._view?.webview.postMessage({ method: 'history', params: { entries: this._history.entries() } });
+  }
+
+  private _matchCountText(): string {
+    if (this._matchesUnsupported)
+      return this._vscode.l10n.t('The installed Playwright version can not list the matching elements.');
+    if (!this._matches)
+      return '';
+    const count = this._matches.length;
+    if (!count)
+      return this._vscode.l10n.t('No elements match');
+    if (count === 1)
+      return this._vscode.l10n.t('1 element matches');
+    return this._vscode.l10n.t('{0} elements match', count);
+  }
+
   private _updateSettings() {
     if (this._view)
       void this._view.webview.postMessage({ method: 'settings', params: { settings: this._settingsModel.json() } });
   }
 }
 
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, `\\'`)}'`;
+}
+
 function htmlForWebview(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Uri, webview: vscodeTypes.Webview) {
   const style = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'media', 'common.css'));
   const script = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'locatorsView.script.js'));
@@ -156,6 +274,16 @@ function htmlForWebview(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Ur
         </div>
         <input id="locator" placeholder="${vscode.l10n.t('Locator')}" aria-labelledby="locatorLabel">
         <p id="locatorError" class="error"></p>
+        <p id="locatorMatchCount" class="match-count"></p>
+        <template id="matchTemplate">
+          <div class="match hbox" role="listitem">
+            <span class="match-tag"></span>
+            <label class="match-label"></label>
+            <a role="button" class="refine-nth" title="${vscode.l10n.t('Refine with .nth()')}">.nth()</a>
+            <a role="button" class="refine-filter" title="${vscode.l10n.t('Refine with .filter()')}">.filter()</a>
+          </div>
+        </template>
+        <div id="locatorMatches" role="list"></div>
       </div>
       <div id="ariaSection" class="section">
         <div class="hbox">
@@ -165,6 +293,20 @@ function htmlForWebview(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Ur
         <textarea id="ariaSnapshot" placeholder="Aria" rows="10" aria-labelledby="ariaSnapshotLabel"></textarea>
         <p id="ariaSnapshotError" class="error"></p>
       </div>
+      <div id="historySection" class="section" data-favorite="${vscode.l10n.t('Add to favorites')}" data-unfavorite="${vscode.l10n.t('Remove from favorites')}">
+        <label id="historyLabel">${vscode.l10n.t('History')}</label>
+        <template id="historyEntryTemplate">
+          <div class="history-entry hbox" role="listitem">
+            <a role="button" class="history-favorite"></a>
+            <span class="history-kind">Aria</span>
+            <label class="history-value"></label>
+            <a role="button" class="history-highlight" title="${vscode.l10n.t('Highlight in browser')}">${vscode.l10n.t('Highlight')}</a>
+            <a role="button" class="history-insert" title="${vscode.l10n.t('Insert at cursor')}">${vscode.l10n.t('Insert')}</a>
+            <a role="button" class="history-remove" title="${vscode.l10n.t('Remove from history')}" aria-label="${vscode.l10n.t('Remove from history')}">✕</a>
+          </div>
+        </template>
+        <div id="history" role="list" aria-labelledby="historyLabel"></div>
+      </div>
     </body>
     <script nonce="${nonce}" src="${script}"></script>
     </html>
@@ -0,0 +1,91 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { vscode } from './common';
+
+type NetworkEntry = {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  duration: number;
+  size: number;
+  mimeType?: string;
+};
+
+const emptyElement = document.getElementById('empty')!;
+const noRequestsElement = document.getElementById('noRequests')!;
+const filtersElement = document.getElementById('filters')!;
+const filterTextElement = document.getElementById('filterText') as HTMLInputElement;
+const filterStatusElement = document.getElementById('filterStatus') as HTMLSelectElement;
+const requestsElement = document.getElementById('requests')!;
+const requestTemplate = document.getElementById('requestTemplate') as HTMLTemplateElement;
+
+let requests: NetworkEntry[] = [];
+
+function formatSize(size: number): string {
+  if (size < 1024)
+    return `${size} B`;
+  if (size < 1024 * 1024)
+    return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function isFailed(request: NetworkEntry): boolean {
+  return !request.status || request.status >= 400;
+}
+
+function renderRequest(request: NetworkEntry, index: number): HTMLElement {
+  const element = (requestTemplate.content.cloneNode(true) as DocumentFragment).firstElementChild as HTMLElement;
+  element.querySelector('.request-method')!.textContent = request.method;
+  const status = element.querySelector('.request-status')!;
+  status.textContent = request.status ? String(request.status) : '✘';
+  status.setAttribute('title', request.statusText);
+  status.classList.toggle('failed', isFailed(request));
+  const url = element.querySelector('.request-url')!;
+  url.textContent = request.url;
+  url.setAttribute('title', request.url);
+  element.querySelector('.request-details')!.textContent = [`${request.duration}ms`, formatSize(request.size), request.mimeType].filter(Boolean).join(' · ');
+  element.querySelector('.insert-mock')!.addEventListener('click', () => vscode.postMessage({ method: 'insertMock', params: { index } }));
+  return element;
+}
+
+function render() {
+  const text = filterTextElement.value.toLowerCase();
+  const onlyFailed = filterStatusElement.value === 'failed';
+  requestsElement.textContent = '';
+  requests.forEach((request, index) => {
+    if (text && !`${request.method} ${request.url}`.toLowerCase().includes(text))
+      return;
+    if (onlyFailed && !isFailed(request))
+      return;
+    requestsElement.appendChild(renderRequest(request, index));
+  });
+}
+
+filterTextElement.addEventListener('input', render);
+filterStatusElement.addEventListener('change', render);
+
+window.addEventListener('message', event => {
+  const { method, params } = event.data;
+  if (method === 'requests') {
+    emptyElement.hidden = !!params.requests;
+    noRequestsElement.hidden = !params.requests || !!params.requests.length;
+    filtersElement.hidden = !params.requests?.length;
+    requests = params.requests || [];
+    render();
+  }
+});
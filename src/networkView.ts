@@ -0,0 +1,214 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DisposableBase } from './disposableBase';
+import { loadTrace, readTraceResources, TraceModel, TraceNetworkRequest } from './traceModel';
+import { getNonce, html } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+type NetworkEntry = {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  duration: number;
+  size: number;
+  mimeType?: string;
+};
+
+/**
+ * Lists the network requests recorded in the selected test's trace and turns them
+ * into `page.route` mocks.
+ */
+export class NetworkView extends DisposableBase implements vscodeTypes.WebviewViewProvider {
+  private _vscode: vscodeTypes.VSCode;
+  private _view: vscodeTypes.WebviewView | undefined;
+  private _extensionUri: vscodeTypes.Uri;
+  private _traceUrl: string | undefined;
+  private _trace: TraceModel | undefined;
+
+  constructor(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Uri) {
+    super();
+    this._vscode = vscode;
+    this._extensionUri = extensionUri;
+    this._disposables = [
+      vscode.window.registerWebviewViewProvider('pw.extension.networkView', this),
+    ];
+  }
+
+  public resolveWebviewView(webviewView: vscodeTypes.WebviewView, context: vscodeTypes.WebviewViewResolveContext, token: vscodeTypes.CancellationToken) {
+    this._view = webviewView;
+
+    webviewView.webview.options = {
+      enableScripts: true,
+      localResourceRoots: [this._extensionUri],
+    };
+
+    webviewView.webview.html = htmlForWebview(this._vscode, this._extensionUri, webviewView.webview);
+    this._disposables.push(webviewView.webview.onDidReceiveMessage(data => {
+      const request = this._trace?.network[data.params?.index];
+      if (data.method === 'insertMock' && request)
+        void this._insertMock(request);
+    }));
+
+    this._disposables.push(webviewView.onDidChangeVisibility(() => {
+      if (webviewView.visible)
+        this._update();
+    }));
+    this._update();
+  }
+
+  async showTrace(traceUrl: string | undefined) {
+    // Traces of running tests are not zipped yet, they are shown once the test ends.
+    if (!traceUrl?.endsWith('.zip'))
+      traceUrl = undefined;
+    if (traceUrl === this._traceUrl)
+      return;
+    this._traceUrl = traceUrl;
+    const trace = traceUrl ? await loadTrace(traceUrl).catch(() => undefined) : undefined;
+    if (traceUrl !== this._traceUrl)
+      return;
+    this._trace = trace;
+    this._update();
+  }
+
+  private async _insertMock(request: TraceNetworkRequest) {
+    const body = request.responseBody && this._trace ? (await readTraceResources(this._trace, [request.responseBody]).catch(() => undefined))?.get(request.responseBody) : undefined;
+    const editor = this._vscode.window.activeTextEditor;
+    if (!editor) {
+      await this._vscode.env.clipboard.writeText(routeMockSnippet(request, body, ''));
+      void this._vscode.window.showInformationMessage(this._vscode.l10n.t('No active editor, the mock was copied to the clipboard.'));
+      return;
+    }
+    const position = editor.selection.active;
+    // Blank lines take the indentation of the closest statement above.
+    let line = position.line;
+    while (line > 0 && editor.document.lineAt(line).isEmptyOrWhitespace)
+      --line;
+    const indent = editor.document.lineAt(line).text.match(/^\s*/)![0];
+    const prefix = editor.document.lineAt(position.line).isEmptyOrWhitespace ? indent.substring(position.character) : '';
+    await editor.edit(editBuilder => {
+      editBuilder.replace(new this._vscode.Range(position, position), prefix + routeMockSnippet(request, body, indent));
+    });
+  }
+
+  private _update() {
+    const view = this._view;
+    if (!view)
+      return;
+    const requests: NetworkEntry[] | undefined = this._trace?.network.map(request => ({
+      method: request.method,
+      url: request.url,
+      status: request.status,
+      statusText: request.statusText,
+      duration: Math.round(request.duration),
+      size: request.size,
+      mimeType: request.mimeType,
+    }));
+    void view.webview.postMessage({ method: 'requests', params: { requests } });
+  }
+}
+
+/**
+ * Route handler that fulfills `request` with the response recorded in the trace,
+ * lines after the first one are prefixed with `indent`.
+ */
+export function routeMockSnippet(request: TraceNetworkRequest, body: Buffer | undefined, indent: string): string {
+  const lines = [`await page.route(${quote(request.url)}, async route => {`];
+  if (request.method !== 'GET') {
+    lines.push(`  if (route.request().method() !== ${quote(request.method)})`);
+    lines.push(`    return route.fallback();`);
+  }
+  if (!request.status) {
+    lines.push(`  await route.abort();`);
+  } else {
+    lines.push(`  await route.fulfill({`);
+    lines.push(`    status: ${request.status},`);
+    const contentType = request.mimeType?.split(';')[0].trim();
+    const json = contentType && (contentType === 'application/json' || contentType.endsWith('+json')) ? parseJSON(body) : undefined;
+    if (json !== undefined) {
+      lines.push(...`json: ${JSON.stringify(json, null, 2)},`.split('\n').map(line => `    ${line}`));
+    } else {
+      if (contentType)
+        lines.push(`    contentType: ${quote(contentType)},`);
+      if (body?.length && isText(contentType))
+        lines.push(`    body: ${JSON.stringify(body.toString('utf8'))},`);
+    }
+    lines.push(`  });`);
+  }
+  lines.push(`});`);
+  return lines.join('\n' + indent);
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, `\\'`)}'`;
+}
+
+function parseJSON(body: Buffer | undefined): any {
+  if (!body)
+    return;
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+  }
+}
+
+function isText(contentType: string | undefined): boolean {
+  return !!contentType && (contentType.startsWith('text/') || contentType.endsWith('javascript') || contentType.endsWith('xml'));
+}
+
+function htmlForWebview(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Uri, webview: vscodeTypes.Webview) {
+  const style = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'media', 'common.css'));
+  const script = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'networkView.script.js'));
+  const nonce = getNonce();
+
+  return html`
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <link href="${style}" rel="stylesheet">
+      <title>Playwright</title>
+    </head>
+    <body class="network-view">
+      <p id="empty">${vscode.l10n.t('Select a test with a trace in the Testing view to see its network requests.')}</p>
+      <p id="noRequests" hidden>${vscode.l10n.t('The trace of this test has no network requests.')}</p>
+      <div id="filters" class="hbox" hidden>
+        <input id="filterText" type="search" placeholder="${vscode.l10n.t('Filter by method or URL')}" aria-label="${vscode.l10n.t('Filter by method or URL')}">
+        <select id="filterStatus" aria-label="${vscode.l10n.t('Status')}">
+          <option value="all">${vscode.l10n.t('All')}</option>
+          <option value="failed">${vscode.l10n.t('Failed')}</option>
+        </select>
+      </div>
+      <template id="requestTemplate">
+        <div class="request" role="listitem">
+          <div class="hbox">
+            <span class="request-method"></span>
+            <span class="request-status"></span>
+            <label class="request-url"></label>
+            <a role="button" class="insert-mock">${vscode.l10n.t('Insert page.route mock')}</a>
+          </div>
+          <div class="request-details"></div>
+        </div>
+      </template>
+      <div id="requests" role="list"></div>
+    </body>
+    <script nonce="${nonce}" src="${script}"></script>
+    </html>
+  `;
+}
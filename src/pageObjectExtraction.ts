@@ -0,0 +1,426 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { t, traverse } from './babelBundle';
+import { getAst, SourcePosition } from './babelHighlightUtil';
+import { locatorMethods } from './methodNames';
+import { uriToPath } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+export type PageObjectOptions = {
+  className: string;
+  // Module specifier the test imports the page object from, e.g. `./login-page`.
+  moduleSpecifier: string;
+  typescript: boolean;
+  commonjs: boolean;
+};
+
+export type TextEdit = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+type LocatorUse = {
+  start: number;
+  end: number;
+  key: string;
+};
+
+type Step = {
+  statement: t.Statement;
+  locator: LocatorUse;
+  action: string;
+  args: t.Node[];
+};
+
+type PageObjectMethod = {
+  name: string;
+  length: number;
+  occurrences: number[];
+  params: { name: string, type: string }[];
+  // Per step, the argument sources with parameters referenced by name.
+  body: { locatorKey: string, action: string, args: string[] }[];
+  // Per occurrence, the call arguments.
+  calls: string[][];
+};
+
+/**
+ * Moves the page locators used by a test into a page object class, together with the action
+ * sequences that repeat within the test, and rewrites the test to go through the page object.
+ * Returns undefined when there is nothing to extract.
+ */
+export function extractPageObject(text: string, fsPath: string, selection: { start: SourcePosition, end: SourcePosition }, options: PageObjectOptions): { pageObject: string, edits: TextEdit[] } | undefined {
+  const ast = getAst(text, fsPath);
+  if (!ast)
+    return;
+  const statements = statementsToExtract(ast, offsetAt(text, selection.start), offsetAt(text, selection.end));
+  if (!statements.length)
+    return;
+  const bodyStart = statements[0].start!;
+  const bodyEnd = statements[statements.length - 1].end!;
+
+  const locators: LocatorUse[] = [];
+  traverse(ast, {
+    enter(path) {
+      const node = path.node;
+      if (node.end! <= bodyStart || node.start! >= bodyEnd) {
+        path.skip();
+        return;
+      }
+      if (!t.isCallExpression(node) || !isStaticPageLocator(node))
+        return;
+      const key = text.substring(node.start!, node.end!).replace(/^page\s*\.\s*/, '').replace(/\s*\n\s*/g, ' ');
+      locators.push({ start: node.start!, end: node.end!, key });
+      path.skip();
+    }
+  });
+  if (!locators.length)
+    return;
+
+  const propertyNames = new Map<string, string>();
+  const usedNames = new Set(['page', 'constructor']);
+  for (const { key } of locators) {
+    if (!propertyNames.has(key))
+      propertyNames.set(key, uniqueName(describeLocator(key).property, usedNames));
+  }
+
+  const steps = statements.map(statement => stepForStatement(statement, locators));
+  const methods = findRepeatedSequences(text, steps, propertyNames, usedNames);
+
+  const instance = options.className[0].toLowerCase() + options.className.substring(1);
+  const replacements: TextEdit[] = [];
+  const replacedRanges: { start: number, end: number }[] = [];
+  for (const method of methods) {
+    method.occurrences.forEach((index, occurrence) => {
+      const start = statements[index].start!;
+      const end = statements[index + method.length - 1].end!;
+      replacements.push({ start, end, text: `await ${instance}.${method.name}(${method.calls[occurrence].join(', ')});` });
+      replacedRanges.push({ start, end });
+    });
+  }
+  for (const locator of locators) {
+    if (!replacedRanges.some(range => locator.start >= range.start && locator.end <= range.end))
+      replacements.push({ start: locator.start, end: locator.end, text: `${instance}.${propertyNames.get(locator.key)}` });
+  }
+  replacements.sort((a, b) => b.start - a.start);
+
+  let body = text.substring(bodyStart, bodyEnd);
+  for (const replacement of replacements)
+    body = body.substring(0, replacement.start - bodyStart) + replacement.text + body.substring(replacement.end - bodyStart);
+  const indent = text.substring(text.lastIndexOf('\n', bodyStart - 1) + 1, bodyStart).match(/^\s*/)![0];
+  body = `const ${instance} = new ${options.className}(page);\n${indent}${body}`;
+
+  const edits: TextEdit[] = [importEdit(ast, text, options), { start: bodyStart, end: bodyEnd, text: body }];
+  return { pageObject: generatePageObject(options, propertyNames, methods), edits };
+}
+
+function offsetAt(text: string, position: SourcePosition): number {
+  const lines = text.split('\n');
+  let offset = 0;
+  for (let i = 0; i < position.line - 1 && i < lines.length; ++i)
+    offset += lines[i].length + 1;
+  return offset + position.column - 1;
+}
+
+// Statements of the selection, or the whole body of the test that contains the cursor.
+function statementsToExtract(ast: NonNullable<ReturnType<typeof getAst>>, start: number, end: number): t.Statement[] {
+  let result: t.Statement[] = [];
+  traverse(ast, {
+    enter(path) {
+      const node = path.node;
+      if (node.start! > start || node.end! < end)
+        return;
+      if (start === end) {
+        const body = t.isCallExpression(node) ? node.arguments[node.arguments.length - 1] : undefined;
+        if (body && t.isFunction(body) && t.isBlockStatement(body.body) && isTestCall(node as t.CallExpression))
+          result = body.body.body;
+      } else if (t.isBlockStatement(node)) {
+        const statements = node.body.filter(statement => statement.end! > start && statement.start! < end);
+        if (statements.length)
+          result = statements;
+      }
+    }
+  });
+  return result;
+}
+
+function isTestCall(node: t.CallExpression): boolean {
+  let callee = node.callee;
+  while (t.isMemberExpression(callee))
+    callee = callee.object;
+  return t.isIdentifier(callee) && (callee.name === 'test' || callee.name === 'it');
+}
+
+// `page.getByRole(...).filter(...)` and alike, with arguments that do not depend on the test.
+function isStaticPageLocator(node: t.Node): boolean {
+  while (t.isCallExpression(node) && t.isMemberExpression(node.callee) && t.isIdentifier(node.callee.property) && locatorMethods.includes(node.callee.property.name)) {
+    if (!node.arguments.every(isStaticValue))
+      return false;
+    node = node.callee.object;
+    if (t.isIdentifier(node))
+      return node.name === 'page';
+  }
+  return false;
+}
+
+function isStaticValue(node: t.Node): boolean {
+  if (t.isStringLiteral(node) || t.isNumericLiteral(node) || t.isBooleanLiteral(node) || t.isRegExpLiteral(node))
+    return true;
+  if (t.isTemplateLiteral(node))
+    return !node.expressions.length;
+  if (t.isObjectExpression(node))
+    return node.properties.every(property => t.isObjectProperty(property) && !property.computed && isStaticValue(property.value));
+  return false;
+}
+
+function stepForStatement(statement: t.Statement, locators: LocatorUse[]): Step | undefined {
+  if (!t.isExpressionStatement(statement) || !t.isAwaitExpression(statement.expression))
+    return;
+  const call = statement.expression.argument;
+  if (!t.isCallExpression(call) || !t.isMemberExpression(call.callee) || !t.isIdentifier(call.callee.property))
+    return;
+  const locator = locators.find(locator => locator.start === call.callee.start && locator.end === (call.callee as t.MemberExpression).object.end);
+  if (!locator)
+    return;
+  return { statement, locator, action: call.callee.property.name, args: call.arguments };
+}
+
+// Greedily picks the longest runs of at least two actions that occur more than once.
+function findRepeatedSequences(text: string, steps: (Step | undefined)[], propertyNames: Map<string, string>, usedNames: Set<string>): PageObjectMethod[] {
+  const shapes = steps.map(step => step ? `${step.locator.key}.${step.action}/${step.args.length}` : undefined);
+  const consumed = new Array<boolean>(steps.length).fill(false);
+  const methods: PageObjectMethod[] = [];
+  const matchesAt = (index: number, from: number, length: number) => {
+    for (let i = 0; i < length; ++i) {
+      if (consumed[index + i] || !shapes[index + i] || shapes[index + i] !== shapes[from + i])
+        return false;
+    }
+    return true;
+  };
+
+  for (let length = Math.floor(steps.length / 2); length >= 2; --length) {
+    for (let from = 0; from + length <= steps.length; ++from) {
+      if (!matchesAt(from, from, length))
+        continue;
+      const occurrences = [from];
+      for (let index = from + length; index + length <= steps.length; ++index) {
+        if (matchesAt(index, from, length)) {
+          occurrences.push(index);
+          index += length - 1;
+        }
+      }
+      if (occurrences.length < 2)
+        continue;
+      for (const index of occurrences)
+        consumed.fill(true, index, index + length);
+      methods.push(createMethod(text, steps as Step[], occurrences, length, propertyNames, usedNames));
+    }
+  }
+  return methods.sort((a, b) => a.occurrences[0] - b.occurrences[0]);
+}
+
+function createMethod(text: string, steps: Step[], occurrences: number[], length: number, propertyNames: Map<string, string>, usedNames: Set<string>): PageObjectMethod {
+  const last = steps[occurrences[0] + length - 1];
+  const lastName = describeLocator(last.locator.key).name;
+  const name = uniqueName(last.action === 'click' && lastName !== 'value' ? lastName : last.action + capitalize(lastName), usedNames);
+
+  const params: PageObjectMethod['params'] = [];
+  const paramNames = new Set<string>();
+  const body: PageObjectMethod['body'] = [];
+  const calls: string[][] = occurrences.map(() => []);
+  for (let i = 0; i < length; ++i) {
+    const step = steps[occurrences[0] + i];
+    const args = step.args.map((arg, k) => {
+      const sources = occurrences.map(index => text.substring(steps[index + i].args[k].start!, steps[index + i].args[k].end!));
+      if (isStaticValue(arg) && sources.every(source => source === sources[0]))
+        return sources[0];
+      const paramName = uniqueName(describeLocator(step.locator.key).name, paramNames);
+      params.push({ name: paramName, type: typeForArgument(arg, step.action, k) });
+      sources.forEach((source, occurrence) => calls[occurrence].push(source));
+      return paramName;
+    });
+    body.push({ locatorKey: step.locator.key, action: step.action, args });
+  }
+  return { name, length, occurrences, params, body, calls };
+}
+
+function typeForArgument(node: t.Node, action: string, index: number): string {
+  if (t.isStringLiteral(node) || t.isTemplateLiteral(node))
+    return 'string';
+  if (t.isNumericLiteral(node))
+    return 'number';
+  if (t.isBooleanLiteral(node))
+    return 'boolean';
+  return `Parameters<Locator['${action}']>[${index}]`;
+}
+
+function generatePageObject(options: PageObjectOptions, propertyNames: Map<string, string>, methods: PageObjectMethod[]): string {
+  const type = (text: string) => options.typescript ? `: ${text}` : '';
+  const lines: string[] = [];
+  if (options.typescript)
+    lines.push(`import type { Locator, Page } from '@playwright/test';`, '');
+  lines.push(`${options.commonjs ? '' : 'export '}class ${options.className} {`);
+  if (options.typescript) {
+    lines.push(`  readonly page: Page;`);
+    for (const property of propertyNames.values())
+      lines.push(`  readonly ${property}: Locator;`);
+    lines.push('');
+  }
+  lines.push(`  constructor(page${type('Page')}) {`);
+  lines.push(`    this.page = page;`);
+  for (const [key, property] of propertyNames)
+    lines.push(`    this.${property} = page.${key};`);
+  lines.push(`  }`);
+  for (const method of methods) {
+    lines.push('');
+    lines.push(`  async ${method.name}(${method.params.map(param => param.name + type(param.type)).join(', ')}) {`);
+    for (const step of method.body)
+      lines.push(`    await this.${propertyNames.get(step.locatorKey)}.${step.action}(${step.args.join(', ')});`);
+    lines.push(`  }`);
+  }
+  lines.push(`}`);
+  if (options.commonjs)
+    lines.push('', `module.exports = { ${options.className} };`);
+  return lines.join('\n') + '\n';
+}
+
+// Goes after the last import, or at the top of the file when there are none.
+function importEdit(ast: NonNullable<ReturnType<typeof getAst>>, text: string, options: PageObjectOptions): TextEdit {
+  const statement = options.commonjs
+    ? `const { ${options.className} } = require('${options.moduleSpecifier}');`
+    : `import { ${options.className} } from '${options.moduleSpecifier}';`;
+  const program = t.isFile(ast) ? ast.program : ast;
+  const imports = (program as t.Program).body.filter(node => t.isImportDeclaration(node) || t.isVariableDeclaration(node) && node.declarations.some(d => t.isCallExpression(d.init) && t.isIdentifier(d.init.callee) && d.init.callee.name === 'require'));
+  const last = imports[imports.length - 1];
+  if (!last)
+    return { start: 0, end: 0, text: statement + '\n' };
+  return { start: last.end!, end: last.end!, text: '\n' + statement };
+}
+
+function describeLocator(key: string): { property: string, name: string } {
+  const calls = [...key.matchAll(/(getBy\w+|locator)\(\s*(['"`])((?:\\.|(?!\2).)*)\2/g)];
+  const call = calls[calls.length - 1];
+  if (!call)
+    return { property: 'element', name: 'value' };
+  const [, method, , value] = call;
+  const rest = key.substring(call.index! + call[0].length);
+  let words = splitWords(value);
+  let suffix = '';
+  switch (method) {
+    case 'getByRole': {
+      const name = rest.match(/^\s*,\s*\{[^}]*\bname\s*:\s*(['"`])((?:\\.|(?!\1).)*)\1/)?.[2];
+      if (name) {
+        suffix = capitalize(camelCase(splitWords(value)));
+        words = splitWords(name);
+      }
+      break;
+    }
+    case 'getByLabel':
+    case 'getByPlaceholder': suffix = 'Input'; break;
+    case 'getByText': suffix = 'Text'; break;
+    case 'getByAltText': suffix = 'Image'; break;
+    case 'locator': suffix = 'Locator'; break;
+  }
+  let name = camelCase(words) || 'value';
+  if (/^\d/.test(name))
+    name = 'item' + name;
+  return { property: name === 'value' && !suffix ? 'element' : name + suffix, name };
+}
+
+function splitWords(text: string): string[] {
+  return (text.match(/[A-Za-z0-9]+/g) || []).slice(0, 4);
+}
+
+function camelCase(words: string[]): string {
+  return words.map((word, i) => i ? capitalize(word.toLowerCase()) : word.toLowerCase()).join('');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.substring(1);
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let result = name;
+  for (let i = 2; used.has(result); ++i)
+    result = name + i;
+  used.add(result);
+  return result;
+}
+
+/**
+ * Refactoring command: extracts the locators of the test under the cursor, or of the selected
+ * statements, into a page object class file next to the test.
+ */
+export async function extractPageObjectFromEditor(vscode: vscodeTypes.VSCode, className?: string) {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor)
+    return;
+  const document = editor.document;
+  const file = uriToPath(document.uri);
+  const extension = path.extname(file);
+  const baseName = path.basename(file).replace(/\.(spec|test)?\.[cm]?[jt]sx?$/, '').replace(/\.[^.]*$/, '');
+  className ??= await vscode.window.showInputBox({
+    prompt: vscode.l10n.t('Enter the name of the page object class'),
+    value: capitalize(camelCase(splitWords(baseName))) + 'Page',
+    validateInput: value => /^[A-Z_$][\w$]*$/i.test(value) ? undefined : vscode.l10n.t('Enter a valid class name'),
+  });
+  if (!className)
+    return;
+
+  const moduleName = className.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+  const pageObjectFile = path.join(path.dirname(file), moduleName + (extension === '.tsx' ? '.ts' : extension === '.jsx' ? '.js' : extension));
+  if (fs.existsSync(pageObjectFile)) {
+    void vscode.window.showErrorMessage(vscode.l10n.t('{0} already exists.', path.basename(pageObjectFile)));
+    return;
+  }
+
+  const text = document.getText();
+  const version = document.version;
+  const result = extractPageObject(text, file, {
+    start: { line: editor.selection.start.line + 1, column: editor.selection.start.character + 1 },
+    end: { line: editor.selection.end.line + 1, column: editor.selection.end.character + 1 },
+  }, {
+    className,
+    moduleSpecifier: './' + moduleName,
+    typescript: /\.[cm]?tsx?$/.test(extension),
+    commonjs: /\brequire\(\s*['"]@playwright\/test['"]\s*\)/.test(text),
+  });
+  if (!result) {
+    void vscode.window.showInformationMessage(vscode.l10n.t('No page locators found to extract, place the cursor in a test or select its statements.'));
+    return;
+  }
+
+  const positionAt = (offset: number) => {
+    const lines = text.substring(0, offset).split('\n');
+    return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+  };
+  // A single edit creates the page object and updates the test, so that undo reverts both.
+  const edit = new vscode.WorkspaceEdit();
+  edit.createFile(vscode.Uri.file(pageObjectFile), { contents: Buffer.from(result.pageObject) });
+  for (const { start, end, text: newText } of result.edits)
+    edit.replace(document.uri, new vscode.Range(positionAt(start), positionAt(end)), newText);
+  // Offsets refer to the text they were computed from.
+  if (document.version !== version) {
+    void vscode.window.showErrorMessage(vscode.l10n.t('{0} changed while extracting the page object, try again.', path.basename(file)));
+    return;
+  }
+  if (!await vscode.workspace.applyEdit(edit))
+    return;
+  await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(pageObjectFile), { preview: false });
+}
@@ -0,0 +1,317 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { t, traverse } from './babelBundle';
+import type { NodePath } from '@babel/traverse';
+import { getAst, SourcePosition } from './babelHighlightUtil';
+import { locatorMethods } from './methodNames';
+
+export type PageObjectLocator = {
+  // Member access under the cursor, e.g. `loginPage.submitButton`.
+  source: string;
+  // Where the page object defines the locator, 1-based.
+  definition: { file: string } & SourcePosition;
+  // Equivalent expression starting with `page.`, when the locator does not depend on runtime values.
+  expression?: string;
+};
+
+type SourceFile = {
+  file: string;
+  text: string;
+  ast: t.File;
+};
+
+type ClassInFile = {
+  source: SourceFile;
+  node: t.Class;
+};
+
+const kMaxDepth = 5;
+
+// Page object modules are parsed once, read again when they change on disk and pruned with the AST caches.
+const moduleCache = new Map<string, { mtimeMs: number, source: SourceFile | undefined }>();
+
+export function prunePageObjectModules(fsPathsToRetain: string[]) {
+  const retain = new Set(fsPathsToRetain);
+  for (const key of moduleCache.keys()) {
+    if (!retain.has(key))
+      moduleCache.delete(key);
+  }
+}
+
+/**
+ * Resolves `pageObject.property` and `this.property` to the locator the page object class
+ * assigns to that property, following imports and fixtures declared with `test.extend()`.
+ */
+export function resolvePageObjectLocator(text: string, fsPath: string, position: SourcePosition): PageObjectLocator | undefined {
+  const ast = getAst(text, fsPath) as t.File | undefined;
+  if (!ast)
+    return;
+  const source: SourceFile = { file: fsPath, text, ast };
+
+  let memberPath: NodePath<t.MemberExpression> | undefined;
+  traverse(ast, {
+    MemberExpression(path) {
+      const node = path.node;
+      if (!node.loc || !containsPosition(node.loc, position))
+        return;
+      if (node.computed || !t.isIdentifier(node.property) || !(t.isThisExpression(node.object) || t.isIdentifier(node.object) && node.object.name !== 'page'))
+        return;
+      // Method calls are not locators.
+      if (t.isCallExpression(path.parent) && path.parent.callee === node)
+        return;
+      memberPath = path;
+    }
+  });
+  if (!memberPath)
+    return;
+
+  const member = memberPath.node;
+  const pageObjectClass = classForObject(source, memberPath.get('object') as NodePath, 0);
+  const property = pageObjectClass ? resolveProperty(pageObjectClass, (member.property as t.Identifier).name, 0) : undefined;
+  if (!property)
+    return;
+  return {
+    source: text.substring(member.start!, member.end!),
+    definition: property.definition,
+    expression: property.expression,
+  };
+}
+
+// Locator calls, e.g. `page.getByRole()`, or other locators of the same page object.
+function isLocator(pageObjectClass: ClassInFile, value: t.Node, depth: number): boolean {
+  if (t.isTSAsExpression(value) || t.isTSNonNullExpression(value))
+    return isLocator(pageObjectClass, value.expression, depth);
+  if (t.isCallExpression(value))
+    return t.isMemberExpression(value.callee) && t.isIdentifier(value.callee.property) && locatorMethods.includes(value.callee.property.name);
+  if (t.isMemberExpression(value) && t.isThisExpression(value.object) && t.isIdentifier(value.property))
+    return !!resolveProperty(pageObjectClass, value.property.name, depth + 1);
+  return false;
+}
+
+function containsPosition(location: t.SourceLocation, position: SourcePosition): boolean {
+  if (position.line < location.start.line || position.line > location.end.line)
+    return false;
+  if (position.line === location.start.line && position.column < location.start.column + 1)
+    return false;
+  if (position.line === location.end.line && position.column > location.end.column + 1)
+    return false;
+  return true;
+}
+
+function classForObject(source: SourceFile, objectPath: NodePath, depth: number): ClassInFile | undefined {
+  if (objectPath.isThisExpression()) {
+    const classPath = objectPath.findParent(p => p.isClass()) as NodePath<t.Class> | null;
+    return classPath ? { source, node: classPath.node } : undefined;
+  }
+  if (!objectPath.isIdentifier())
+    return;
+  const binding = objectPath.scope.getBinding(objectPath.node.name);
+  if (!binding)
+    return;
+
+  const declaration = binding.path.node;
+  // const loginPage = new LoginPage(page);
+  if (t.isVariableDeclarator(declaration)) {
+    const init = t.isAwaitExpression(declaration.init) ? declaration.init.argument : declaration.init;
+    const className = t.isNewExpression(init) && t.isIdentifier(init.callee) ? init.callee.name : typeName(declaration.id);
+    return className ? findClass(source, className, depth) : undefined;
+  }
+  if (binding.kind !== 'param')
+    return;
+
+  // (loginPage: LoginPage) => {}
+  const annotated = typeName(declaration);
+  if (annotated)
+    return findClass(source, annotated, depth);
+
+  // test('...', async ({ loginPage }) => {}) with `test` extended with a `loginPage` fixture.
+  const testCall = binding.scope.path.parentPath?.node;
+  if (!t.isCallExpression(testCall))
+    return;
+  let callee: t.Node = testCall.callee;
+  while (t.isMemberExpression(callee))
+    callee = callee.object;
+  if (!t.isIdentifier(callee))
+    return;
+  const fixtures = importedFile(source, callee.name);
+  return fixtures ? fixtureClass(fixtures.source, objectPath.node.name, depth + 1) : undefined;
+}
+
+function typeName(node: t.Node): string | undefined {
+  const annotation = (node as t.Identifier).typeAnnotation;
+  if (t.isTSTypeAnnotation(annotation) && t.isTSTypeReference(annotation.typeAnnotation) && t.isIdentifier(annotation.typeAnnotation.typeName))
+    return annotation.typeAnnotation.typeName.name;
+}
+
+function fixtureClass(source: SourceFile, fixtureName: string, depth: number): ClassInFile | undefined {
+  let className: string | undefined;
+  traverse(source.ast, {
+    CallExpression(path) {
+      const node = path.node;
+      if (className || !t.isMemberExpression(node.callee) || !t.isIdentifier(node.callee.property) || node.callee.property.name !== 'extend')
+        return;
+      const fixtures = node.arguments[0];
+      if (!t.isObjectExpression(fixtures))
+        return;
+      const fixture = fixtures.properties.find(p => (t.isObjectProperty(p) || t.isObjectMethod(p)) && t.isIdentifier(p.key) && p.key.name === fixtureName);
+      if (!fixture)
+        return;
+      path.traverse({
+        NewExpression(newPath) {
+          if (!className && newPath.node.start! >= fixture.start! && newPath.node.end! <= fixture.end! && t.isIdentifier(newPath.node.callee))
+            className = newPath.node.callee.name;
+        }
+      });
+    }
+  });
+  return className ? findClass(source, className, depth) : undefined;
+}
+
+// Top-level class declared in the file or imported into it.
+function findClass(source: SourceFile, className: string, depth: number): ClassInFile | undefined {
+  if (depth > kMaxDepth)
+    return;
+  for (const statement of source.ast.program.body) {
+    const declaration = t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement) ? statement.declaration : statement;
+    if (t.isClassDeclaration(declaration) && declaration.id?.name === className)
+      return { source, node: declaration };
+  }
+  const imported = importedFile(source, className);
+  if (!imported)
+    return;
+  if (imported.name === 'default') {
+    const exported = imported.source.ast.program.body.find(statement => t.isExportDefaultDeclaration(statement));
+    if (t.isExportDefaultDeclaration(exported) && t.isClassDeclaration(exported.declaration))
+      return { source: imported.source, node: exported.declaration };
+    return;
+  }
+  return findClass(imported.source, imported.name, depth + 1);
+}
+
+// Resolves `import { name } from './file'` and `const { name } = require('./file')`.
+function importedFile(source: SourceFile, localName: string): { source: SourceFile, name: string } | undefined {
+  for (const statement of source.ast.program.body) {
+    if (t.isImportDeclaration(statement)) {
+      for (const specifier of statement.specifiers) {
+        if (specifier.local.name !== localName)
+          continue;
+        const name = t.isImportSpecifier(specifier) ? (t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value) : 'default';
+        const imported = loadModule(source.file, statement.source.value);
+        return imported ? { source: imported, name } : undefined;
+      }
+    }
+    if (t.isVariableDeclaration(statement)) {
+      for (const declarator of statement.declarations) {
+        const init = declarator.init;
+        if (!t.isCallExpression(init) || !t.isIdentifier(init.callee) || init.callee.name !== 'require' || !t.isStringLiteral(init.arguments[0]) || !t.isObjectPattern(declarator.id))
+          continue;
+        for (const property of declarator.id.properties) {
+          if (!t.isObjectProperty(property) || !t.isIdentifier(property.key) || !t.isIdentifier(property.value) || property.value.name !== localName)
+            continue;
+          const imported = loadModule(source.file, init.arguments[0].value);
+          return imported ? { source: imported, name: property.key.name } : undefined;
+        }
+      }
+    }
+  }
+}
+
+function loadModule(fromFile: string, specifier: string): SourceFile | undefined {
+  if (!specifier.startsWith('.'))
+    return;
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  // TypeScript allows importing `./file.js` for `./file.ts`.
+  const candidates = [base, base.replace(/\.js$/, '.ts'), base.replace(/\.jsx$/, '.tsx')];
+  for (const extension of ['.ts', '.tsx', '.js', '.jsx', '.mts', '.mjs', '.cts', '.cjs'])
+    candidates.push(base + extension, path.join(base, 'index' + extension));
+  for (const file of candidates) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(file);
+    } catch {
+      continue;
+    }
+    if (!stat.isFile())
+      continue;
+    const cached = moduleCache.get(file);
+    if (cached?.mtimeMs === stat.mtimeMs)
+      return cached.source;
+    let source: SourceFile | undefined;
+    try {
+      const text = fs.readFileSync(file, 'utf8');
+      const ast = getAst(text, file) as t.File | undefined;
+      source = ast ? { file, text, ast } : undefined;
+    } catch {
+    }
+    moduleCache.set(file, { mtimeMs: stat.mtimeMs, source });
+    return source;
+  }
+}
+
+// Finds the locator assigned to `property` by a class field, a getter or the constructor.
+function resolveProperty(pageObjectClass: ClassInFile, property: string, depth: number): Pick<PageObjectLocator, 'definition' | 'expression'> | undefined {
+  if (depth > kMaxDepth)
+    return;
+  const { source, node } = pageObjectClass;
+  let key: t.Node | undefined;
+  let value: t.Node | undefined;
+  let pageParam: string | undefined;
+  for (const member of node.body.body) {
+    if (t.isClassProperty(member) && t.isIdentifier(member.key) && member.key.name === property && member.value) {
+      key = member.key;
+      value = member.value;
+    } else if (t.isClassMethod(member) && member.kind === 'get' && t.isIdentifier(member.key) && member.key.name === property) {
+      const returnStatement = member.body.body.find(statement => t.isReturnStatement(statement));
+      if (t.isReturnStatement(returnStatement) && returnStatement.argument) {
+        key = member.key;
+        value = returnStatement.argument;
+      }
+    } else if (t.isClassMethod(member) && member.kind === 'constructor') {
+      const param = member.params[0];
+      pageParam = t.isIdentifier(param) ? param.name : t.isTSParameterProperty(param) && t.isIdentifier(param.parameter) ? param.parameter.name : undefined;
+      for (const statement of member.body.body) {
+        if (key || !t.isExpressionStatement(statement) || !t.isAssignmentExpression(statement.expression))
+          continue;
+        const left = statement.expression.left;
+        if (t.isMemberExpression(left) && t.isThisExpression(left.object) && t.isIdentifier(left.property) && left.property.name === property) {
+          key = left.property;
+          value = statement.expression.right;
+        }
+      }
+    }
+  }
+  if (!key?.loc || !value || !isLocator(pageObjectClass, value, depth))
+    return;
+
+  const definition = { file: source.file, line: key.loc.start.line, column: key.loc.start.column + 1 };
+  let expression: string | undefined = source.text.substring(value.start!, value.end!);
+  const match = expression.match(/^this\s*\.\s*(\w+)\s*([.\s][\s\S]*)?$/);
+  if (match && match[1] !== 'page' && match[1] !== '_page') {
+    // Locators built on top of another locator of the same page object.
+    const base = resolveProperty(pageObjectClass, match[1], depth + 1)?.expression;
+    expression = base ? base + (match[2] || '') : undefined;
+  } else {
+    expression = expression.replace(/^this\s*\.\s*_?page\s*\./, 'page.');
+    if (pageParam)
+      expression = expression.replace(new RegExp(`^${pageParam}\\s*\\.`), 'page.');
+  }
+  if (expression && !/^page\s*\./.test(expression))
+    expression = undefined;
+  return { definition, expression };
+}
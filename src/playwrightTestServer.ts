@@ -14,11 +14,12 @@
  * limitations under the License.
  */
 
+import { ChildProcess } from 'child_process';
 import path from 'path';
 import { ConfigFindRelatedTestFilesReport, ConfigListFilesReport } from './listTests';
 import * as vscodeTypes from './vscodeTypes';
 import * as reporterTypes from './upstream/reporter';
-import { TeleReporterReceiver, JsonConfig } from './upstream/teleReceiver';
+import { TeleReporterReceiver, JsonConfig, JsonEvent, JsonFullResult } from './upstream/teleReceiver';
 import { WebSocketTestServerTransport, TestServerConnection, TestServerConnectionClosedError } from './upstream/testServerConnection';
 import { startBackend } from './backend';
 import { escapeRegex, pathSeparator } from './utils';
@@ -45,6 +46,12 @@ export type PlaywrightTestRunOptions = {
   connectWsEndpoint?: string;
   updateSnapshots?: 'all' | 'changed' | 'missing' | 'none' | undefined;
   updateSourceMethod?: 'overwrite' | 'patch' | '3way' | undefined;
+  grep?: string;
+  grepInvert?: string;
+  // Not sent to the test server, used to narrow down the test ids of the request.
+  excludeTestIds?: string[];
+  // Replaces the test ids of the request, used to retry the failed tests.
+  testIds?: string[];
 };
 
 export type PlaywrightTestOptions = {
@@ -210,8 +217,13 @@ export class PlaywrightTestServer {
     if (!connection)
       return;
 
-    const { locations, testIds } = this._model.narrowDownLocations(request);
-    if (!locations && !testIds)
+    const { locations, testIds: requestTestIds } = this._model.narrowDownLocations(request);
+    if (!locations && !requestTestIds)
+      return;
+
+    const { excludeTestIds, testIds = requestTestIds, ...serverOptions } = runOptions;
+    const includedTestIds = testIds && excludeTestIds ? testIds.filter(id => !excludeTestIds.includes(id)) : testIds;
+    if (includedTestIds && !includedTestIds.length)
       return;
 
     // Locations are regular expressions.
@@ -219,8 +231,8 @@ export class PlaywrightTestServer {
     const options: Parameters<TestServerInterface['runTests']>['0'] = {
       projects: this._model.enabledProjectsFilter(),
       locations: locationPatterns,
-      testIds,
-      ...runOptions,
+      testIds: includedTestIds,
+      ...serverOptions,
     };
     const disposables = [
       token.onCancellationRequested(() => {
@@ -237,6 +249,72 @@ export class PlaywrightTestServer {
     }
   }
 
+  async runShardedTests(request: vscodeTypes.TestRunRequest, runOptions: PlaywrightTestRunOptions, reporter: reporterTypes.ReporterV2, token: vscodeTypes.CancellationToken, shardCount: number, env: NodeJS.ProcessEnv = {}): Promise<void> {
+    const { locations, testIds: requestTestIds } = this._model.narrowDownLocations(request);
+    if (!locations && !requestTestIds)
+      return;
+
+    const { excludeTestIds, testIds = requestTestIds, ...serverOptions } = runOptions;
+    const includedTestIds = testIds && excludeTestIds ? testIds.filter(id => !excludeTestIds.includes(id)) : testIds;
+    if (includedTestIds && !includedTestIds.length)
+      return;
+
+    // Test ids are split between shards, otherwise every shard gets a subset of the requested files.
+    let shards: { locations: string[] | null, testIds?: string[] }[];
+    if (includedTestIds) {
+      shards = splitIntoShards(includedTestIds, shardCount).map(testIds => ({ locations, testIds }));
+    } else {
+      const files = [...this._model.enabledFiles()].filter(file => !locations!.length || locations!.some(location => file.startsWith(location)));
+      shards = splitIntoShards(files.sort(), shardCount).map(files => ({ locations: files }));
+    }
+
+    const disposables: vscodeTypes.Disposable[] = [];
+    const servers: TestServerConnectionWrapper[] = [];
+    const merger = new ShardReportMerger(reporter, shards.length);
+    try {
+      await Promise.all(shards.map(async (shard, shardIndex) => {
+        try {
+          const server = await this._createTestServer({ env: { ...this._globalSetupEnv, ...env } });
+          servers.push(server);
+          const { connection, errors } = server;
+          if (!connection) {
+            reporter.onError?.({ message: 'Internal error: unable to connect to the test server.' + (errors.length ? '. Test server errors: ' + errors.join('\n') : '') });
+            return;
+          }
+          if (token?.isCancellationRequested)
+            return;
+          disposables.push(token.onCancellationRequested(() => {
+            connection.stopTestsNoReply({});
+          }));
+          disposables.push(
+              connection.onReport(message => {
+                if (token.isCancellationRequested && message.method !== 'onEnd')
+                  return;
+                merger.dispatch(shardIndex, message);
+              }),
+              this._pipeStdio(connection, reporter),
+          );
+          await connection.runTests({
+            projects: this._model.enabledProjectsFilter(),
+            locations: shard.locations ? shard.locations.map(escapeRegex) : undefined,
+            testIds: shard.testIds,
+            ...serverOptions,
+          });
+        } finally {
+          merger.shardStopped(shardIndex);
+        }
+      }));
+    } finally {
+      for (const disposable of disposables)
+        disposable.dispose();
+      for (const { connection, serverProcess } of servers) {
+        connection?.close();
+        if (serverProcess && serverProcess.exitCode === null)
+          serverProcess.kill();
+      }
+    }
+  }
+
   private _normalizePaths() {
     let cwd = this._model.config.workspaceFolder;
     if (process.platform === 'win32') {
@@ -399,9 +477,10 @@ export class PlaywrightTestServer {
     return this._testServerPromise;
   }
 
-  private async _createTestServer(): Promise<TestServerConnectionWrapper> {
+  private async _createTestServer(shard?: { env: NodeJS.ProcessEnv }): Promise<TestServerConnectionWrapper> {
     const paths = this._normalizePaths();
     const errors: string[] = [];
+    let serverProcess: ChildProcess | undefined;
     const wsEndpoint = await startBackend(this._vscode, {
       args: [
         paths.cli,
@@ -412,6 +491,8 @@ export class PlaywrightTestServer {
       envProvider: () => {
         return {
           ...this._options.envProvider(this._model.config.configFile),
+          // Shards do not run global setup themselves, pass on its environment.
+          ...shard?.env,
           FORCE_COLOR: '1',
           // Reset VSCode's options that affect nested Electron.
           ELECTRON_RUN_AS_NODE: undefined,
@@ -419,23 +500,27 @@ export class PlaywrightTestServer {
       },
       dumpIO: false,
       errors,
+      onSpawn: process => serverProcess = process,
       onClose: () => {
-        this._testServerPromise = undefined;
+        if (!shard)
+          this._testServerPromise = undefined;
       },
       onError: error => {
-        this._testServerPromise = undefined;
+        if (!shard)
+          this._testServerPromise = undefined;
       },
     });
     if (!wsEndpoint)
-      return { connection: null, errors };
+      return { connection: null, errors, serverProcess };
     const connection = new TestServerConnection(new WebSocketTestServerTransport(wsEndpoint));
-    connection.onTestFilesChanged(params => this._testFilesChanged(params.testFiles));
+    if (!shard)
+      connection.onTestFilesChanged(params => this._testFilesChanged(params.testFiles));
     await connection.initialize({
       serializer: require.resolve('./oopReporter'),
       interceptStdio: true,
       closeOnDisconnect: true,
     });
-    return { connection, errors };
+    return { connection, errors, serverProcess };
   }
 
   private _wireTestServer(testServer: TestServerConnection, reporter: reporterTypes.ReporterV2, token: vscodeTypes.CancellationToken, disposables: vscodeTypes.Disposable[]): void {
@@ -466,6 +551,92 @@ export class PlaywrightTestServer {
   }
 }
 
+/**
+ * Shards report into one receiver, so that their tests are merged into one root suite.
+ * The run begins once every shard has listed its tests and ends when the last shard ends,
+ * test events of the shards that begin early are held back until then.
+ */
+class ShardReportMerger {
+  private _receiver: TeleReporterReceiver;
+  private _pendingBegin: Set<number>;
+  private _pendingEnd: Set<number>;
+  private _configured = false;
+  private _queue: JsonEvent[] | undefined = [];
+  private _results: JsonFullResult[] = [];
+
+  constructor(reporter: reporterTypes.ReporterV2, shardCount: number) {
+    this._receiver = new TeleReporterReceiver(reporter, {
+      mergeProjects: true,
+      mergeTestCases: true,
+      resolvePath,
+    });
+    const shardIndices = [...Array(shardCount).keys()];
+    this._pendingBegin = new Set(shardIndices);
+    this._pendingEnd = new Set(shardIndices);
+  }
+
+  dispatch(shardIndex: number, message: JsonEvent) {
+    switch (message.method) {
+      case 'onConfigure':
+        if (this._configured)
+          return;
+        this._configured = true;
+        break;
+      case 'onProject':
+      case 'onError':
+        break;
+      case 'onBegin':
+        this._shardBegan(shardIndex);
+        return;
+      case 'onEnd':
+        this._results.push(message.params.result);
+        this._shardEnded(shardIndex);
+        return;
+      default:
+        if (this._queue) {
+          this._queue.push(message);
+          return;
+        }
+    }
+    void this._receiver.dispatch(message);
+  }
+
+  // Shards that fail to connect or to run do not report, stop waiting for them.
+  shardStopped(shardIndex: number) {
+    this._shardBegan(shardIndex);
+    this._shardEnded(shardIndex);
+  }
+
+  private _shardBegan(shardIndex: number) {
+    if (!this._pendingBegin.delete(shardIndex) || this._pendingBegin.size)
+      return;
+    const queue = this._queue || [];
+    this._queue = undefined;
+    if (this._configured)
+      void this._receiver.dispatch({ method: 'onBegin', params: undefined });
+    for (const message of queue)
+      void this._receiver.dispatch(message);
+  }
+
+  private _shardEnded(shardIndex: number) {
+    if (!this._pendingEnd.delete(shardIndex) || this._pendingEnd.size || !this._results.length)
+      return;
+    const statuses = this._results.map(result => result.status);
+    const status = (['failed', 'timedout', 'interrupted'] as const).find(s => statuses.includes(s)) || 'passed';
+    const startTime = Math.min(...this._results.map(result => result.startTime));
+    const endTime = Math.max(...this._results.map(result => result.startTime + result.duration));
+    void this._receiver.dispatch({ method: 'onEnd', params: { result: { status, startTime, duration: endTime - startTime } } });
+  }
+}
+
+function splitIntoShards<T>(items: T[], shardCount: number): T[][] {
+  const shards: T[][] = [];
+  for (let i = 0; i < Math.min(shardCount, items.length); ++i)
+    shards.push([]);
+  items.forEach((item, index) => shards[index % shards.length].push(item));
+  return shards;
+}
+
 function unwrapString(params: { text?: string, buffer?: string }): string | Buffer {
   return params.buffer ? Buffer.from(params.buffer, 'base64') : params.text || '';
 }
@@ -477,4 +648,5 @@ function resolvePath(rootDir: string, relativePath: string) {
 type TestServerConnectionWrapper = {
   connection: TestServerConnection | null;
   errors: string[];
+  serverProcess?: ChildProcess;
 };
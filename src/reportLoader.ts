@@ -0,0 +1,228 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import * as reporterTypes from './upstream/reporter';
+import { JsonAttachment, JsonEvent, JsonProject, JsonSuite, TeleReporterReceiver } from './upstream/teleReceiver';
+import { readZipEntries } from './utils';
+
+/**
+ * Replays blob (.zip, .jsonl) and JSON reporter (.json) reports into the reporter.
+ * Paths in the report are mapped onto the local checkout of the config file.
+ * Attachments of blob reports are extracted into `resourcesDir`, which is owned by the caller.
+ */
+export async function loadReports(files: string[], localConfigFile: string, resourcesDir: string, reporter: reporterTypes.ReporterV2): Promise<reporterTypes.Suite | undefined> {
+  let rootSuite: reporterTypes.Suite | undefined;
+  let reportRootDir = '';
+  let localRootDir = path.dirname(localConfigFile);
+  const localPath = (relativePath: string) => path.join(localRootDir, ...relativePath.split(/[\\/]/));
+  const receiver = new TeleReporterReceiver({
+    ...reporter,
+    onBegin: suite => {
+      rootSuite = suite;
+      reporter.onBegin?.(suite);
+    },
+  }, {
+    mergeProjects: true,
+    mergeTestCases: true,
+    resolvePath: (_, relativePath) => localPath(relativePath),
+  });
+
+  for (const [index, file] of files.entries()) {
+    const events = await readReportEvents(file, path.join(resourcesDir, String(index)));
+    for (const event of events) {
+      if (event.method === 'onConfigure') {
+        reportRootDir = event.params.config.rootDir;
+        localRootDir = mapRootDir(event.params.config, localConfigFile);
+      }
+      // Error locations are absolute paths on the machine that produced the report.
+      if (event.method === 'onTestEnd') {
+        for (const error of event.params.result.errors as reporterTypes.TestError[]) {
+          if (error.location?.file.startsWith(reportRootDir))
+            error.location = { ...error.location, file: localPath(error.location.file.substring(reportRootDir.length)) };
+        }
+      }
+      await receiver.dispatch(event);
+    }
+  }
+  return rootSuite;
+}
+
+async function readReportEvents(file: string, resourcesDir: string): Promise<JsonEvent[]> {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === '.json')
+    return jsonReportToEvents(JSON.parse(await fs.promises.readFile(file, 'utf8')));
+  if (extension === '.jsonl')
+    return parseJsonl(await fs.promises.readFile(file, 'utf8'));
+
+  const entries = await readZipEntries(file);
+  const jsonlEntries = [...entries.keys()].filter(name => name.endsWith('.jsonl'));
+  if (!jsonlEntries.length)
+    throw new Error(`${path.basename(file)} is not a Playwright blob report`);
+
+  // Attachments are stored next to the report, extract them so that traces can be opened.
+  for (const [name, body] of entries) {
+    if (!name.startsWith('resources/'))
+      continue;
+    const resourceFile = resolveResource(file, resourcesDir, name);
+    await fs.promises.mkdir(path.dirname(resourceFile), { recursive: true });
+    await fs.promises.writeFile(resourceFile, body);
+  }
+
+  const events = jsonlEntries.map(name => parseJsonl(entries.get(name)!.toString('utf8'))).flat();
+  for (const event of events) {
+    if (event.method !== 'onTestEnd')
+      continue;
+    for (const attachment of event.params.result.attachments) {
+      if (attachment.path?.startsWith('resources/'))
+        attachment.path = resolveResource(file, resourcesDir, attachment.path);
+    }
+  }
+  return events;
+}
+
+// Entry names come from the report, do not let them point outside of the resources dir.
+function resolveResource(file: string, resourcesDir: string, name: string): string {
+  const resourceFile = path.resolve(resourcesDir, ...name.split(/[\\/]/));
+  if (!resourceFile.startsWith(path.resolve(resourcesDir) + path.sep))
+    throw new Error(`${path.basename(file)} contains an invalid entry ${name}`);
+  return resourceFile;
+}
+
+function parseJsonl(text: string): JsonEvent[] {
+  const events: JsonEvent[] = [];
+  const attachments = new Map<string, JsonAttachment[]>();
+  for (const line of text.split('\n').filter(Boolean)) {
+    const event: JsonEvent = JSON.parse(line);
+    // Newer reports stream attachments separately, fold them into the test end.
+    if (event.method === 'onAttach') {
+      attachments.set(event.params.resultId, [...attachments.get(event.params.resultId) || [], ...event.params.attachments]);
+      continue;
+    }
+    if (event.method === 'onProject')
+      event.params.project.suites = event.params.project.suites.map(splitSuiteEntries);
+    if (event.method === 'onTestEnd') {
+      const { result } = event.params;
+      result.attachments = [...result.attachments || [], ...attachments.get(result.id) || []];
+    }
+    events.push(event);
+  }
+  return events;
+}
+
+// Newer reports keep suites and tests in a single ordered list of entries.
+function splitSuiteEntries(suite: any): JsonSuite {
+  if (!suite.entries)
+    return suite;
+  const { entries, ...rest } = suite;
+  return {
+    ...rest,
+    suites: entries.filter((entry: any) => !('testId' in entry)).map(splitSuiteEntries),
+    tests: entries.filter((entry: any) => 'testId' in entry),
+  };
+}
+
+// Root dir is relative to the config file, both in the report and locally.
+function mapRootDir(config: { configFile?: string, rootDir: string }, localConfigFile: string): string {
+  const localConfigDir = path.dirname(localConfigFile);
+  if (!config.configFile)
+    return localConfigDir;
+  // Report could come from another platform. Newer reports store the config file relative to the root dir.
+  const reportPath = config.rootDir.includes('\\') ? path.win32 : path.posix;
+  const configDir = reportPath.dirname(reportPath.resolve(config.rootDir, config.configFile));
+  return path.join(localConfigDir, ...reportPath.relative(configDir, config.rootDir).split(reportPath.sep));
+}
+
+function jsonReportToEvents(report: reporterTypes.JSONReport): JsonEvent[] {
+  const events: JsonEvent[] = [];
+  const { rootDir } = report.config;
+  events.push({ method: 'onConfigure', params: { config: { ...report.config, projects: undefined } } });
+
+  const results: JsonEvent[] = [];
+  const projectSuites = (project: reporterTypes.JSONReport['config']['projects'][number]) => {
+    const convertSuite = (suite: reporterTypes.JSONReportSuite, titles: string[]): JsonSuite => ({
+      title: suite.title,
+      location: titles.length ? { file: suite.file, line: suite.line, column: suite.column } : undefined,
+      suites: (suite.suites || []).map(s => convertSuite(s, [...titles, s.title])),
+      tests: suite.specs.flatMap(spec => {
+        const testIndex = spec.tests.findIndex(t => t.projectName === project.name);
+        if (testIndex === -1)
+          return [];
+        const test = spec.tests[testIndex];
+        // The JSON report only keeps the id of the first project's test, compute the others the way Playwright does.
+        const testId = testIndex === 0 ? spec.id : computeTestId(rootDir, project, spec.file, [...titles, spec.title]);
+        test.results.forEach((result, index) => {
+          const resultId = `${testId}-${index}`;
+          results.push({ method: 'onTestBegin', params: { testId, result: { id: resultId, retry: result.retry, workerIndex: result.workerIndex, parallelIndex: 0, startTime: new Date(result.startTime).getTime() } } });
+          for (const [type, entries] of [['stdout', result.stdout], ['stderr', result.stderr]] as const) {
+            for (const entry of entries)
+              results.push({ method: 'onStdIO', params: { type, testId, resultId, ...('buffer' in entry ? { data: entry.buffer, isBase64: true } : { data: entry.text, isBase64: false }) } });
+          }
+          results.push({ method: 'onTestEnd', params: {
+            test: { testId, expectedStatus: test.expectedStatus, timeout: test.timeout, annotations: test.annotations },
+            result: {
+              id: resultId,
+              duration: result.duration,
+              status: result.status,
+              errors: result.errors,
+              attachments: result.attachments.map(({ body, ...attachment }) => ({ ...attachment, base64: body })),
+            },
+          } });
+        });
+        return [{ testId, title: spec.title, location: { file: spec.file, line: spec.line, column: spec.column }, retries: 0, tags: spec.tags, repeatEachIndex: 0 }];
+      }),
+    });
+    return report.suites.map(suite => convertSuite(suite, []));
+  };
+
+  for (const project of report.config.projects) {
+    const jsonProject: JsonProject = {
+      grep: [],
+      grepInvert: [],
+      metadata: project.metadata,
+      name: project.name,
+      dependencies: [],
+      snapshotDir: '',
+      outputDir: path.relative(rootDir, project.outputDir),
+      repeatEach: project.repeatEach,
+      retries: project.retries,
+      suites: projectSuites(project),
+      testDir: path.relative(rootDir, project.testDir),
+      testIgnore: [],
+      testMatch: [],
+      timeout: project.timeout,
+      use: {},
+    };
+    events.push({ method: 'onProject', params: { project: jsonProject } });
+  }
+  events.push({ method: 'onBegin', params: undefined });
+  events.push(...results);
+  events.push({ method: 'onEnd', params: { result: { status: report.stats.unexpected ? 'failed' : 'passed', startTime: new Date(report.stats.startTime).getTime(), duration: report.stats.duration } } });
+  return events;
+}
+
+function computeTestId(rootDir: string, project: reporterTypes.JSONReport['config']['projects'][number], file: string, titles: string[]): string {
+  const reportPath = rootDir.includes('\\') ? path.win32 : path.posix;
+  const relativeFile = reportPath.relative(project.testDir, reportPath.resolve(rootDir, file)).split(reportPath.sep).join('/');
+  const fileId = calculateSha1(relativeFile).slice(0, 20);
+  return fileId + '-' + calculateSha1(`[project=${project.id}]${file}\x1e${titles.join('\x1e')}`).slice(0, 20);
+}
+
+function calculateSha1(text: string): string {
+  return crypto.createHash('sha1').update(text).digest('hex');
+}
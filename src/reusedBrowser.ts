@@ -306,6 +306,21 @@ export class ReusedBrowser implements vscodeTypes.Disposable {
     await this._backend?.highlight({ ariaTemplate });
   }
 
+  // Returns 'unsupported' when the debug controller of the installed Playwright can't list
+  // the matches, and undefined when there is no browser to match in.
+  async matchingElements(selector: string): Promise<ElementMatch[] | 'unsupported' | undefined> {
+    if (!this._backend)
+      return;
+    try {
+      const { elements } = await this._backend.matchingElements({ selector });
+      return elements;
+    } catch (error: any) {
+      // The debug controller rejects the methods it does not know before dispatching them.
+      if (/Unknown scheme|does not implement/.test(error.message))
+        return 'unsupported';
+    }
+  }
+
   hideHighlight() {
     this._backend?.hideHighlight().catch(() => {});
     this._onHighlightRequestedForTestEvent.fire('');
@@ -519,6 +534,13 @@ export class ReusedBrowser implements vscodeTypes.Disposable {
   }
 }
 
+export type ElementMatch = {
+  tagName: string;
+  role?: string;
+  name?: string;
+  text: string;
+};
+
 export class Backend extends BackendClient {
   constructor(vscode: vscodeTypes.VSCode) {
     super(vscode);
@@ -553,6 +575,10 @@ export class Backend extends BackendClient {
     await this.send('hideHighlight');
   }
 
+  async matchingElements(params: { selector: string }): Promise<{ elements: ElementMatch[] }> {
+    return await this.send('matchingElements', params);
+  }
+
   resumeNoWait() {
     this.send('resume').catch(() => {});
   }
@@ -0,0 +1,384 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ansi2html, escapeHTML } from './ansi2html';
+import * as reporterTypes from './upstream/reporter';
+import { html } from './utils';
+
+/**
+ * Captures everything reported during a single `TestRun`, so that it can be
+ * exported after the run has finished.
+ */
+export class RunReport {
+  private _config: reporterTypes.FullConfig | undefined;
+  private _rootSuites = new Set<reporterTypes.Suite>();
+  private _errors: reporterTypes.TestError[] = [];
+  private _output: string[] = [];
+  private _startTime = new Date();
+  private _endTime: Date | undefined;
+
+  reporter(reporter: reporterTypes.ReporterV2): reporterTypes.ReporterV2 {
+    return {
+      ...reporter,
+      onConfigure: config => {
+        this._config ??= config;
+        reporter.onConfigure?.(config);
+      },
+      onBegin: rootSuite => {
+        this._rootSuites.add(rootSuite);
+        reporter.onBegin?.(rootSuite);
+      },
+      onStdOut: (chunk, test, result) => {
+        if (!test)
+          this._output.push(chunk.toString());
+        reporter.onStdOut?.(chunk, test, result);
+      },
+      onStdErr: (chunk, test, result) => {
+        if (!test)
+          this._output.push(chunk.toString());
+        reporter.onStdErr?.(chunk, test, result);
+      },
+      onError: error => {
+        this._errors.push(error);
+        reporter.onError?.(error);
+      },
+    };
+  }
+
+  end() {
+    this._endTime = new Date();
+  }
+
+  tests(): reporterTypes.TestCase[] {
+    return [...this._rootSuites].map(suite => suite.allTests()).flat();
+  }
+
+  toJSON(): reporterTypes.JSONReport {
+    const rootDir = this._rootDir();
+    const projects: reporterTypes.JSONReport['config']['projects'] = [];
+    const fileSuites = new Map<string, reporterTypes.JSONReportSuite>();
+    for (const rootSuite of this._rootSuites) {
+      for (const projectSuite of rootSuite.suites) {
+        const project = projectSuite.project()!;
+        if (!projects.some(p => p.name === project.name)) {
+          projects.push({
+            outputDir: project.outputDir,
+            repeatEach: project.repeatEach,
+            retries: project.retries,
+            metadata: project.metadata,
+            id: project.name,
+            name: project.name,
+            testDir: project.testDir,
+            testIgnore: toStrings(project.testIgnore),
+            testMatch: toStrings(project.testMatch),
+            timeout: project.timeout,
+          });
+        }
+        for (const fileSuite of projectSuite.suites) {
+          const serialized = serializeSuite(rootDir, project.name, fileSuite);
+          const existing = fileSuites.get(serialized.file);
+          if (existing)
+            mergeSuites(existing, serialized);
+          else
+            fileSuites.set(serialized.file, serialized);
+        }
+      }
+    }
+
+    const stats = { expected: 0, unexpected: 0, flaky: 0, skipped: 0 };
+    for (const test of this.tests())
+      ++stats[test.outcome()];
+
+    return {
+      config: { ...(this._config || emptyConfig(rootDir)), projects },
+      suites: [...fileSuites.values()],
+      errors: this._errors,
+      stats: {
+        startTime: this._startTime.toISOString(),
+        duration: (this._endTime || new Date()).getTime() - this._startTime.getTime(),
+        ...stats,
+      },
+    };
+  }
+
+  async toHTML(title: string): Promise<string> {
+    const report = this.toJSON();
+    await embedAttachments(report.suites);
+    const { stats } = report;
+    return html`<!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${escapeHTML(title)}</title>
+        <style>${reportStyle}</style>
+      </head>
+      <body>
+        <h1>${escapeHTML(title)}</h1>
+        <div class="stats">
+          <span class="expected">${stats.expected} passed</span>
+          <span class="unexpected">${stats.unexpected} failed</span>
+          <span class="flaky">${stats.flaky} flaky</span>
+          <span class="skipped">${stats.skipped} skipped</span>
+          <span>${formatDuration(stats.duration)}</span>
+        </div>
+        ${report.errors.map(renderError).join('')}
+        ${report.suites.map(suite => renderSuite(suite)).join('')}
+        ${this._output.length ? html`<details><summary>Output</summary>${renderOutput(this._output)}</details>` : ''}
+      </body>
+      </html>`;
+  }
+
+  private _rootDir(): string {
+    if (this._config?.rootDir)
+      return this._config.rootDir;
+    const [rootSuite] = this._rootSuites;
+    return rootSuite?.suites[0]?.project()?.testDir || '';
+  }
+}
+
+function serializeSuite(rootDir: string, projectName: string, suite: reporterTypes.Suite): reporterTypes.JSONReportSuite {
+  const location = relativeLocation(rootDir, suite.location);
+  const result: reporterTypes.JSONReportSuite = {
+    title: suite.title,
+    ...location,
+    specs: suite.tests.map(test => serializeSpec(rootDir, projectName, test)),
+  };
+  if (suite.suites.length)
+    result.suites = suite.suites.map(s => serializeSuite(rootDir, projectName, s));
+  return result;
+}
+
+function serializeSpec(rootDir: string, projectName: string, test: reporterTypes.TestCase): reporterTypes.JSONReportSpec {
+  return {
+    title: test.title,
+    ok: test.ok(),
+    tags: test.tags,
+    tests: [{
+      timeout: test.timeout,
+      annotations: test.annotations,
+      expectedStatus: test.expectedStatus,
+      projectId: projectName,
+      projectName,
+      results: test.results.map(serializeResult),
+      status: test.outcome(),
+    }],
+    id: test.id,
+    ...relativeLocation(rootDir, test.location),
+  };
+}
+
+function serializeResult(result: reporterTypes.TestResult): reporterTypes.JSONReportTestResult {
+  return {
+    workerIndex: result.workerIndex,
+    status: result.status,
+    duration: result.duration,
+    error: result.error,
+    errors: result.errors.map(error => ({ message: error.stack || error.message || error.value || '', location: error.location })),
+    stdout: result.stdout.map(serializeStdio),
+    stderr: result.stderr.map(serializeStdio),
+    retry: result.retry,
+    steps: result.steps.filter(step => step.category === 'test.step').map(serializeStep),
+    startTime: result.startTime.toISOString(),
+    attachments: result.attachments.map(attachment => ({
+      name: attachment.name,
+      contentType: attachment.contentType,
+      path: attachment.path,
+      body: attachment.body?.toString('base64'),
+    })),
+    errorLocation: result.error?.location,
+  };
+}
+
+function serializeStep(step: reporterTypes.TestStep): reporterTypes.JSONReportTestStep {
+  const steps = step.steps.filter(s => s.category === 'test.step');
+  return {
+    title: step.title,
+    duration: step.duration,
+    error: step.error,
+    steps: steps.length ? steps.map(serializeStep) : undefined,
+  };
+}
+
+function serializeStdio(chunk: string | Buffer): reporterTypes.JSONReportSTDIOEntry {
+  if (typeof chunk === 'string')
+    return { text: chunk };
+  return { buffer: chunk.toString('base64') };
+}
+
+// Same spec in multiple projects is a single spec with multiple tests, like in the JSON reporter.
+function mergeSuites(to: reporterTypes.JSONReportSuite, from: reporterTypes.JSONReportSuite) {
+  for (const fromSuite of from.suites || []) {
+    const toSuite = to.suites?.find(s => s.title === fromSuite.title && s.line === fromSuite.line && s.column === fromSuite.column);
+    if (toSuite) {
+      mergeSuites(toSuite, fromSuite);
+    } else {
+      to.suites ??= [];
+      to.suites.push(fromSuite);
+    }
+  }
+  for (const fromSpec of from.specs) {
+    const toSpec = to.specs.find(s => s.title === fromSpec.title && s.line === fromSpec.line && s.column === fromSpec.column);
+    if (toSpec) {
+      toSpec.tests.push(...fromSpec.tests);
+      toSpec.ok = toSpec.ok && fromSpec.ok;
+    } else {
+      to.specs.push(fromSpec);
+    }
+  }
+}
+
+function relativeLocation(rootDir: string, location: reporterTypes.Location | undefined): { file: string, line: number, column: number } {
+  if (!location)
+    return { file: '', line: 0, column: 0 };
+  return {
+    file: path.relative(rootDir, location.file).split(path.sep).join('/'),
+    line: location.line,
+    column: location.column,
+  };
+}
+
+function toStrings(patterns: string | RegExp | (string | RegExp)[]): string[] {
+  return (Array.isArray(patterns) ? patterns : [patterns]).map(String);
+}
+
+function emptyConfig(rootDir: string): reporterTypes.FullConfig {
+  return {
+    configFile: '',
+    version: '',
+    rootDir,
+    forbidOnly: false,
+    fullyParallel: false,
+    grep: [],
+    grepInvert: null,
+    metadata: {},
+    projects: [],
+    reporter: [],
+  };
+}
+
+function renderSuite(suite: reporterTypes.JSONReportSuite): string {
+  return html`
+    <details open class="suite">
+      <summary>${escapeHTML(suite.title)}</summary>
+      ${suite.specs.map(renderSpec).join('')}
+      ${(suite.suites || []).map(renderSuite).join('')}
+    </details>`;
+}
+
+function renderSpec(spec: reporterTypes.JSONReportSpec): string {
+  return spec.tests.map(test => {
+    const projectName = test.projectName ? html` <span class="project">${escapeHTML(test.projectName)}</span>` : '';
+    const duration = test.results.reduce((total, result) => total + result.duration, 0);
+    return html`
+      <details class="test ${test.status}" ${test.status === 'unexpected' ? 'open' : ''}>
+        <summary>${statusIcon[test.status]} ${escapeHTML(spec.title)}${projectName} <span class="location">${escapeHTML(`${spec.file}:${spec.line}`)}</span> <span class="duration">${formatDuration(duration)}</span></summary>
+        ${test.results.map(result => renderResult(result, test.results.length > 1)).join('')}
+      </details>`;
+  }).join('');
+}
+
+function renderResult(result: reporterTypes.JSONReportTestResult, showRetry: boolean): string {
+  const output = [...result.stdout, ...result.stderr].map(entry => 'text' in entry ? entry.text : Buffer.from(entry.buffer, 'base64').toString());
+  return html`
+    <div class="result">
+      ${showRetry ? html`<div class="retry">${result.retry ? `Retry #${result.retry}` : 'Run'} — ${result.status}</div>` : ''}
+      ${result.errors.map(renderError).join('')}
+      ${result.steps?.length ? html`<details><summary>Steps</summary><ul>${result.steps.map(renderStep).join('')}</ul></details>` : ''}
+      ${output.length ? html`<details><summary>Output</summary>${renderOutput(output)}</details>` : ''}
+      ${result.attachments.length ? html`<ul class="attachments">${result.attachments.map(renderAttachment).join('')}</ul>` : ''}
+    </div>`;
+}
+
+function renderStep(step: reporterTypes.JSONReportTestStep): string {
+  const steps = step.steps?.length ? html`<ul>${step.steps.map(renderStep).join('')}</ul>` : '';
+  return html`<li class="${step.error ? 'unexpected' : ''}">${escapeHTML(step.title)} <span class="duration">${formatDuration(step.duration)}</span>${steps}</li>`;
+}
+
+function renderError(error: { message?: string }): string {
+  return html`<pre class="error">${ansi2html(error.message || '')}</pre>`;
+}
+
+function renderOutput(output: string[]): string {
+  return html`<pre class="output">${ansi2html(output.join(''))}</pre>`;
+}
+
+// Attachments larger than this are listed by name only, so that the report stays shareable.
+const kMaxEmbeddedAttachmentSize = 10 * 1024 * 1024;
+
+// Reads the attachments saved to disk into their body, the exported report has to be self-contained.
+async function embedAttachments(suites: reporterTypes.JSONReportSuite[]) {
+  const attachments = suites.flatMap(collectAttachments).filter(attachment => attachment.path && !attachment.body);
+  await Promise.all(attachments.map(async attachment => {
+    try {
+      const stat = await fs.promises.stat(attachment.path!);
+      if (stat.size <= kMaxEmbeddedAttachmentSize)
+        attachment.body = (await fs.promises.readFile(attachment.path!)).toString('base64');
+    } catch {
+      // Attachment files are removed along with the test results, list them by name.
+    }
+  }));
+}
+
+function collectAttachments(suite: reporterTypes.JSONReportSuite): reporterTypes.JSONReportTestResult['attachments'] {
+  const results = suite.specs.flatMap(spec => spec.tests.flatMap(test => test.results));
+  return [...results.flatMap(result => result.attachments), ...(suite.suites || []).flatMap(collectAttachments)];
+}
+
+function renderAttachment(attachment: reporterTypes.JSONReportTestResult['attachments'][number]): string {
+  const name = escapeHTML(attachment.name);
+  if (!attachment.body)
+    return html`<li>${name}${attachment.path ? html` <span class="location">${escapeHTML(path.basename(attachment.path))}</span>` : ''}</li>`;
+  const dataUri = `data:${escapeHTML(attachment.contentType)};base64,${attachment.body}`;
+  if (attachment.contentType.startsWith('image/'))
+    return html`<li>${name}<br><img src="${dataUri}"></li>`;
+  if (attachment.contentType.startsWith('video/'))
+    return html`<li>${name}<br><video controls src="${dataUri}"></video></li>`;
+  if (attachment.contentType.startsWith('text/') || attachment.contentType === 'application/json')
+    return html`<li>${name}<pre>${escapeHTML(Buffer.from(attachment.body, 'base64').toString())}</pre></li>`;
+  const fileName = attachment.path ? path.basename(attachment.path) : attachment.name;
+  return html`<li><a download="${escapeHTML(fileName)}" href="${dataUri}">${name}</a></li>`;
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000)
+    return `${Math.round(ms)}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+const statusIcon: Record<reporterTypes.JSONReportTest['status'], string> = {
+  expected: '✅',
+  unexpected: '❌',
+  flaky: '⚠️',
+  skipped: '⏭️',
+};
+
+const reportStyle = `
+  body { font-family: system-ui, sans-serif; font-size: 14px; margin: 16px; }
+  .stats span { margin-right: 12px; }
+  .expected { color: #2da44e; }
+  .unexpected { color: #cf222e; }
+  .flaky { color: #bf8700; }
+  .skipped { color: #6e7781; }
+  details { margin: 4px 0 4px 16px; }
+  summary { cursor: pointer; }
+  .test > summary { color: inherit; }
+  .project, .location, .duration { color: #6e7781; font-size: 12px; }
+  pre { background: #1e1e1e; color: #d4d4d4; padding: 8px; overflow: auto; white-space: normal; font-family: monospace; }
+  img, video { max-width: 100%; }
+`;
@@ -29,8 +29,15 @@ export type ConfigSettings = {
   selected: boolean;
 };
 
+export type QuarantinedTest = {
+  testId: string;
+  // Title path starting at the file, used to exclude the test from location-based runs.
+  titlePath: string[];
+};
+
 export type WorkspaceSettings = {
   configs?: ConfigSettings[];
+  quarantine?: QuarantinedTest[];
 };
 
 export const workspaceStateKey = 'pw.workspace-settings';
@@ -41,12 +48,20 @@ export class SettingsModel extends DisposableBase {
   private _context: vscodeTypes.ExtensionContext;
   readonly onChange: vscodeTypes.Event<void>;
   private _onChange: vscodeTypes.EventEmitter<void>;
+  readonly onQuarantineChange: vscodeTypes.Event<void>;
+  private _onQuarantineChange: vscodeTypes.EventEmitter<void>;
   showBrowser: Setting<boolean>;
   showTrace: Setting<boolean>;
+  embeddedTraceViewer: Setting<boolean>;
   runGlobalSetupOnEachRun: Setting<boolean>;
   updateSnapshots: Setting<'all' | 'changed' | 'missing' | 'none' | 'no-override'>;
   updateSourceMethod: Setting<'overwrite' | 'patch' | '3way' | 'no-override'>;
   pickLocatorCopyToClipboard: Setting<boolean>;
+  quarantineMode: Setting<'skip' | 'ignoreFailures'>;
+  shardCount: Setting<number>;
+  repeatEach: Setting<number>;
+  retries: Setting<number>;
+  durationRegressionThreshold: Setting<number>;
 
   constructor(vscode: vscodeTypes.VSCode, context: vscodeTypes.ExtensionContext) {
     super();
@@ -54,16 +69,25 @@ export class SettingsModel extends DisposableBase {
     this._context = context;
     this._onChange = new vscode.EventEmitter();
     this.onChange = this._onChange.event;
+    this._onQuarantineChange = new vscode.EventEmitter();
+    this.onQuarantineChange = this._onQuarantineChange.event;
 
     this.showBrowser = this._createSetting('reuseBrowser');
     this.showTrace = this._createSetting('showTrace');
+    this.embeddedTraceViewer = this._createSetting('embeddedTraceViewer');
     this.runGlobalSetupOnEachRun = this._createSetting('runGlobalSetupOnEachRun');
     this.updateSnapshots = this._createSetting('updateSnapshots');
     this.updateSourceMethod = this._createSetting('updateSourceMethod');
     this.pickLocatorCopyToClipboard = this._createSetting('pickLocatorCopyToClipboard');
+    this.quarantineMode = this._createSetting('quarantineMode');
+    this.shardCount = this._createSetting('shardCount');
+    this.repeatEach = this._createSetting('repeatEach');
+    this.retries = this._createSetting('retries');
+    this.durationRegressionThreshold = this._createSetting('durationRegressionThreshold');
 
     this._disposables.push(
         this._onChange,
+        this._onQuarantineChange,
         this.showBrowser.onChange(enabled => {
           if (enabled && this.showTrace.get())
             void this.showTrace.set(false);
@@ -85,6 +109,25 @@ export class SettingsModel extends DisposableBase {
     }
   }
 
+  quarantinedTests(): QuarantinedTest[] {
+    const workspaceSettings = this._context.workspaceState.get(workspaceStateKey) as WorkspaceSettings | undefined;
+    return workspaceSettings?.quarantine || [];
+  }
+
+  isQuarantined(testId: string): boolean {
+    return this.quarantinedTests().some(t => t.testId === testId);
+  }
+
+  async setQuarantined(tests: QuarantinedTest[], quarantined: boolean) {
+    const testIds = new Set(tests.map(t => t.testId));
+    const quarantine = this.quarantinedTests().filter(t => !testIds.has(t.testId));
+    if (quarantined)
+      quarantine.push(...tests);
+    const workspaceSettings = this._context.workspaceState.get(workspaceStateKey) as WorkspaceSettings | undefined;
+    await this._context.workspaceState.update(workspaceStateKey, { ...workspaceSettings, quarantine });
+    this._onQuarantineChange.fire();
+  }
+
   setting<T>(settingName: string): Setting<T> | undefined {
     return this._settings.get(settingName);
   }
@@ -97,8 +140,8 @@ export class SettingsModel extends DisposableBase {
     return setting;
   }
 
-  json(): Record<string, boolean | string> {
-    const result: Record<string, boolean | string> = {};
+  json(): Record<string, boolean | string | number> {
+    const result: Record<string, boolean | string | number> = {};
     for (const [key, setting] of this._settings)
       result[key] = setting.get();
     return result;
@@ -66,6 +66,13 @@ for (const input of Array.from(document.querySelectorAll('input[type=checkbox]')
     vscode.postMessage({ method: 'toggle', params: { setting: input.getAttribute('setting') } });
   });
 }
+for (const input of Array.from(document.querySelectorAll<HTMLInputElement>('input[type=number][setting]'))) {
+  input.addEventListener('change', event => {
+    if (!input.checkValidity())
+      return;
+    vscode.postMessage({ method: 'set', params: { setting: input.getAttribute('setting'), value: Number(input.value) } });
+  });
+}
 for (const select of Array.from(document.querySelectorAll<HTMLSelectElement>('select[setting]'))) {
   select.addEventListener('change', event => {
     vscode.postMessage({ method: 'set', params: { setting: select.getAttribute('setting'), value: select.value } });
@@ -79,13 +86,13 @@ window.addEventListener('message', event => {
 
   const { method, params } = event.data;
   if (method === 'settings') {
-    for (const [key, value] of Object.entries(params.settings as Record<string, string | boolean>)) {
+    for (const [key, value] of Object.entries(params.settings as Record<string, string | boolean | number>)) {
       const input = document.querySelector('input[setting=' + key + ']') as HTMLInputElement;
       if (input) {
         if (typeof value === 'boolean')
           input.checked = value;
         else
-          input.value = value;
+          input.value = String(value);
       }
       const select = document.querySelector('select[setting=' + key + ']') as HTMLSelectElement;
       if (select)
@@ -119,6 +119,10 @@ export class SettingsView extends DisposableBase implements vscodeTypes.WebviewV
     const actions = [
       pickElementAction(this._vscode),
       recordNewAction(this._vscode, this._reusedBrowser),
+      {
+        ...recordNewWithHarAction(this._vscode, this._reusedBrowser),
+        location: 'rareActions',
+      },
       recordAtCursorAction(this._vscode, this._reusedBrowser),
       recordFromExistingTestAction(this._vscode, this._reusedBrowser),
       revealTestOutputAction(this._vscode),
@@ -291,6 +295,18 @@ function htmlForWebview(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Ur
             <option value="3way">3-way</option>
           </select>
         </div>
+        <div class="hbox">
+          <label id="repeatEachLabel">${vscode.l10n.t('Run N times')}</label>
+        </div>
+        <div class="combobox">
+          <input type="number" min="1" setting="repeatEach" aria-labelledby="repeatEachLabel"></input>
+        </div>
+        <div class="hbox">
+          <label id="retriesLabel">${vscode.l10n.t('Retries')}</label>
+        </div>
+        <div class="combobox">
+          <input type="number" min="0" setting="retries" aria-labelledby="retriesLabel"></input>
+        </div>
       </div>
     </body>
     <script src="${script}" nonce="${nonce}"></script>
@@ -314,6 +330,15 @@ export const recordNewAction = (vscode: vscodeTypes.VSCode, reusedBrowser: Reuse
   };
 };
 
+export const recordNewWithHarAction = (vscode: vscodeTypes.VSCode, reusedBrowser: ReusedBrowser) => {
+  return {
+    command: 'pw.extension.command.recordNewWithHar',
+    svg: ``,
+    text: vscode.l10n.t('Record with network capture'),
+    disabled: !reusedBrowser.canRecordNew(),
+  };
+};
+
 export const recordAtCursorAction = (vscode: vscodeTypes.VSCode, reusedBrowser: ReusedBrowser) => {
   return {
     command: 'pw.extension.command.recordAtCursor',
@@ -0,0 +1,181 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DisposableBase } from './disposableBase';
+import type { RunReport } from './runReport';
+import type { SettingsModel } from './settingsModel';
+import type { TestHistory, TestHistoryRecord } from './testHistory';
+import { ancestorProject } from './testModel';
+import * as reporterTypes from './upstream/reporter';
+import * as vscodeTypes from './vscodeTypes';
+
+type LatestRunTest = {
+  test: reporterTypes.TestCase;
+  result: reporterTypes.TestResult;
+  previousDuration?: number;
+};
+
+type SlowestNode =
+  | { kind: 'section', section: 'latest' | 'history' }
+  | { kind: 'test', entry: LatestRunTest }
+  | { kind: 'step', step: reporterTypes.TestStep }
+  | { kind: 'record', record: TestHistoryRecord, averageDuration: number };
+
+const kMaxTests = 50;
+// Durations of very short tests are too noisy to report regressions.
+const kMinRegressionDuration = 100;
+
+export class SlowestTestsView extends DisposableBase implements vscodeTypes.TreeDataProvider<SlowestNode> {
+  private _vscode: vscodeTypes.VSCode;
+  private _history: TestHistory;
+  private _settingsModel: SettingsModel;
+  private _latestRun: LatestRunTest[] = [];
+  private _onDidChangeTreeData: vscodeTypes.EventEmitter<void>;
+  readonly onDidChangeTreeData: vscodeTypes.Event<void>;
+
+  constructor(vscode: vscodeTypes.VSCode, history: TestHistory, settingsModel: SettingsModel) {
+    super();
+    this._vscode = vscode;
+    this._history = history;
+    this._settingsModel = settingsModel;
+    this._onDidChangeTreeData = new vscode.EventEmitter();
+    this.onDidChangeTreeData = this._onDidChangeTreeData.event;
+    this._disposables = [
+      this._onDidChangeTreeData,
+      history.onChange(() => this._onDidChangeTreeData.fire()),
+      settingsModel.durationRegressionThreshold.onChange(() => this._onDidChangeTreeData.fire()),
+      vscode.window.registerTreeDataProvider('pw.extension.slowestTestsView', this),
+    ];
+  }
+
+  /**
+   * Called once the run has finished and its results are recorded in the history.
+   */
+  setLatestRun(runReport: RunReport) {
+    // Repeated and retried runs report into the same test, it is ranked by its slowest result.
+    const latestRun: LatestRunTest[] = [];
+    for (const test of runReport.tests()) {
+      const results = test.results.filter(result => result.status !== 'skipped');
+      if (!results.length)
+        continue;
+      const result = results.reduce((a, b) => b.duration > a.duration ? b : a);
+      latestRun.push({ test, result, previousDuration: this._previousDuration(test.id, results[0].startTime) });
+    }
+    this._latestRun = latestRun.sort((a, b) => b.result.duration - a.result.duration).slice(0, kMaxTests);
+    this._onDidChangeTreeData.fire();
+  }
+
+  private _previousDuration(testId: string, runStartTime: Date): number | undefined {
+    const entries = this._history.entries(testId).filter(e => e.status !== 'skipped' && e.timestamp < runStartTime.getTime());
+    return entries[entries.length - 1]?.duration;
+  }
+
+  private _regression(entry: LatestRunTest): number | undefined {
+    const { previousDuration, result } = entry;
+    if (!previousDuration || result.duration < kMinRegressionDuration)
+      return;
+    const percent = Math.round((result.duration - previousDuration) * 100 / previousDuration);
+    return percent > (this._settingsModel.durationRegressionThreshold.get() ?? 0) ? percent : undefined;
+  }
+
+  getChildren(node?: SlowestNode): SlowestNode[] {
+    if (!node) {
+      const sections: SlowestNode[] = [];
+      if (this._latestRun.length)
+        sections.push({ kind: 'section', section: 'latest' });
+      if (this._history.records().some(r => r.entries.length))
+        sections.push({ kind: 'section', section: 'history' });
+      return sections;
+    }
+    if (node.kind === 'section' && node.section === 'latest')
+      return this._latestRun.map(entry => ({ kind: 'test', entry }));
+    if (node.kind === 'section' && node.section === 'history')
+      return this._historyRecords();
+    if (node.kind === 'test')
+      return sortedSteps(node.entry.result.steps);
+    if (node.kind === 'step')
+      return sortedSteps(node.step.steps);
+    return [];
+  }
+
+  private _historyRecords(): SlowestNode[] {
+    const averages: { record: TestHistoryRecord, averageDuration: number }[] = [];
+    for (const record of this._history.records()) {
+      const durations = record.entries.filter(e => e.status !== 'skipped').map(e => e.duration);
+      if (durations.length)
+        averages.push({ record, averageDuration: Math.round(durations.reduce((a, b) => a + b, 0) / durations.length) });
+    }
+    averages.sort((a, b) => b.averageDuration - a.averageDuration);
+    return averages.slice(0, kMaxTests).map(average => ({ kind: 'record', ...average }));
+  }
+
+  getTreeItem(node: SlowestNode): vscodeTypes.TreeItem {
+    if (node.kind === 'section') {
+      if (node.section === 'latest')
+        return new this._vscode.TreeItem(this._vscode.l10n.t('Latest run'), this._vscode.TreeItemCollapsibleState.Expanded);
+      return new this._vscode.TreeItem(this._vscode.l10n.t('Across runs'), this._vscode.TreeItemCollapsibleState.Collapsed);
+    }
+
+    if (node.kind === 'test') {
+      const { test, result, previousDuration } = node.entry;
+      const item = new this._vscode.TreeItem(test.title, result.steps.length ? this._vscode.TreeItemCollapsibleState.Collapsed : this._vscode.TreeItemCollapsibleState.None);
+      const details = [`${result.duration}ms`];
+      const project = ancestorProject(test).name;
+      if (project)
+        details.push(project);
+      const regression = this._regression(node.entry);
+      if (regression !== undefined) {
+        details.push(this._vscode.l10n.t('+{0}% since previous run', regression));
+        item.iconPath = new this._vscode.ThemeIcon('warning');
+        item.tooltip = this._vscode.l10n.t('Took {0}ms, previous run took {1}ms', result.duration, previousDuration!);
+      }
+      item.description = details.join(' · ');
+      item.command = this._openCommand(test.location);
+      return item;
+    }
+
+    if (node.kind === 'step') {
+      const { step } = node;
+      const item = new this._vscode.TreeItem(step.title, step.steps.length ? this._vscode.TreeItemCollapsibleState.Collapsed : this._vscode.TreeItemCollapsibleState.None);
+      item.description = `${step.duration}ms`;
+      if (step.location)
+        item.command = this._openCommand(step.location);
+      return item;
+    }
+
+    const { record, averageDuration } = node;
+    const item = new this._vscode.TreeItem(record.title, this._vscode.TreeItemCollapsibleState.None);
+    item.description = this._vscode.l10n.t('{0}ms average over {1} runs', averageDuration, record.entries.filter(e => e.status !== 'skipped').length);
+    item.command = this._openCommand(record.location);
+    return item;
+  }
+
+  private _openCommand(location: reporterTypes.Location): vscodeTypes.Command {
+    const line = Math.max(location.line - 1, 0);
+    return {
+      title: this._vscode.l10n.t('Go to test'),
+      command: 'vscode.open',
+      arguments: [
+        this._vscode.Uri.file(location.file),
+        { selection: new this._vscode.Range(line, 0, line, 0) },
+      ],
+    };
+  }
+}
+
+function sortedSteps(steps: reporterTypes.TestStep[]): SlowestNode[] {
+  return [...steps].sort((a, b) => b.duration - a.duration).map(step => ({ kind: 'step', step }));
+}
@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { vscode } from './common';
+
+type Snapshot = {
+  id: string;
+  testTitle: string;
+  name: string;
+  expected: string;
+  actual: string;
+  diff?: string;
+};
+
+const emptyElement = document.getElementById('empty')!;
+const snapshotsElement = document.getElementById('snapshots')!;
+const snapshotTemplate = document.getElementById('snapshotTemplate') as HTMLTemplateElement;
+// Comparison mode survives updates of the list, e.g. after accepting another snapshot.
+const modes = new Map<string, string>();
+
+function renderSnapshot(snapshot: Snapshot): HTMLElement {
+  const element = (snapshotTemplate.content.cloneNode(true) as DocumentFragment).firstElementChild as HTMLElement;
+  element.querySelector('.snapshot-title')!.textContent = `${snapshot.testTitle} › ${snapshot.name}`;
+  element.querySelector<HTMLImageElement>('.snapshot-expected img')!.src = snapshot.expected;
+  element.querySelector<HTMLImageElement>('.snapshot-actual img')!.src = snapshot.actual;
+  if (snapshot.diff)
+    element.querySelector<HTMLImageElement>('.snapshot-diff img')!.src = snapshot.diff;
+
+  const comparison = element.querySelector<HTMLElement>('.snapshot-comparison')!;
+  const actual = element.querySelector<HTMLElement>('.snapshot-actual')!;
+  const modeSelect = element.querySelector<HTMLSelectElement>('.snapshot-mode')!;
+  const position = element.querySelector<HTMLInputElement>('.snapshot-position')!;
+  modeSelect.querySelector<HTMLOptionElement>('option[value=diff]')!.disabled = !snapshot.diff;
+  modeSelect.value = modes.get(snapshot.id) || 'slider';
+
+  const render = () => {
+    const mode = modeSelect.value;
+    modes.set(snapshot.id, mode);
+    comparison.className = `snapshot-comparison mode-${mode}`;
+    position.hidden = mode !== 'slider' && mode !== 'overlay';
+    actual.style.clipPath = mode === 'slider' ? `inset(0 0 0 ${position.value}%)` : '';
+    actual.style.opacity = mode === 'overlay' ? String(Number(position.value) / 100) : '';
+  };
+  modeSelect.addEventListener('change', render);
+  position.addEventListener('input', render);
+  render();
+
+  element.querySelector('.accept-snapshot')!.addEventListener('click', () => vscode.postMessage({ method: 'accept', params: { id: snapshot.id } }));
+  element.querySelector('.reject-snapshot')!.addEventListener('click', () => vscode.postMessage({ method: 'reject', params: { id: snapshot.id } }));
+  return element;
+}
+
+window.addEventListener('message', event => {
+  const { method, params } = event.data;
+  if (method === 'snapshots') {
+    const snapshots: Snapshot[] = params.snapshots;
+    emptyElement.hidden = !!snapshots.length;
+    snapshotsElement.textContent = '';
+    for (const snapshot of snapshots)
+      snapshotsElement.appendChild(renderSnapshot(snapshot));
+  }
+});
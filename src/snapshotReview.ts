@@ -0,0 +1,216 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DisposableBase } from './disposableBase';
+import type { SettingsModel } from './settingsModel';
+import * as reporterTypes from './upstream/reporter';
+import { getNonce, html } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+type SnapshotMismatch = {
+  id: string;
+  testId: string;
+  testTitle: string;
+  name: string;
+  // Baseline, the file `toHaveScreenshot` compares against.
+  expectedPath: string;
+  actualPath: string;
+  diffPath?: string;
+};
+
+/**
+ * Collects failed image snapshots and lets the user review them in a webview,
+ * accepting the actual image as the new baseline.
+ */
+export class SnapshotReview extends DisposableBase {
+  private _vscode: vscodeTypes.VSCode;
+  private _extensionUri: vscodeTypes.Uri;
+  private _settingsModel: SettingsModel;
+  private _mismatches = new Map<string, SnapshotMismatch>();
+  private _panel: vscodeTypes.WebviewPanel | undefined;
+
+  constructor(vscode: vscodeTypes.VSCode, settingsModel: SettingsModel, extensionUri: vscodeTypes.Uri) {
+    super();
+    this._vscode = vscode;
+    this._settingsModel = settingsModel;
+    this._extensionUri = extensionUri;
+  }
+
+  testEnded(test: reporterTypes.TestCase, result: reporterTypes.TestResult) {
+    for (const [id, mismatch] of this._mismatches) {
+      if (mismatch.testId === test.id)
+        this._mismatches.delete(id);
+    }
+    // Baselines were already overwritten by the run.
+    const updateSnapshots = this._settingsModel.updateSnapshots.get();
+    if (updateSnapshots === 'all' || updateSnapshots === 'changed')
+      return;
+
+    const images = new Map<string, string>();
+    for (const attachment of result.attachments) {
+      if (attachment.path && attachment.contentType.startsWith('image/'))
+        images.set(attachment.name, attachment.path);
+    }
+    for (const [name, actualPath] of images) {
+      const match = name.match(/^(.*)-actual(\.[^.]*)?$/);
+      if (!match)
+        continue;
+      const expectedPath = images.get(`${match[1]}-expected${match[2] || ''}`);
+      if (!expectedPath)
+        continue;
+      const id = `${test.id}:${name}`;
+      this._mismatches.set(id, {
+        id,
+        testId: test.id,
+        testTitle: test.title,
+        name: `${match[1]}${match[2] || ''}`,
+        expectedPath,
+        actualPath,
+        diffPath: images.get(`${match[1]}-diff${match[2] || ''}`),
+      });
+    }
+    this._update();
+  }
+
+  override dispose() {
+    this._panel?.dispose();
+    super.dispose();
+  }
+
+  show() {
+    if (this._panel) {
+      this._panel.reveal();
+      this._update();
+      return;
+    }
+    const panel = this._vscode.window.createWebviewPanel('playwright.snapshotReview', this._vscode.l10n.t('Snapshot Review'), this._vscode.ViewColumn.Active, {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+      localResourceRoots: this._localResourceRoots(),
+    });
+    this._panel = panel;
+    panel.webview.html = htmlForWebview(this._vscode, this._extensionUri, panel.webview);
+    const disposables = [
+      panel.webview.onDidReceiveMessage(data => {
+        if (data.method === 'accept')
+          void this._accept(data.params.id);
+        else if (data.method === 'reject')
+          this._reject(data.params.id);
+      }),
+      panel.onDidDispose(() => {
+        this._panel = undefined;
+        disposables.forEach(d => d.dispose());
+      }),
+    ];
+    this._update();
+  }
+
+  private async _accept(id: string) {
+    const mismatch = this._mismatches.get(id);
+    if (!mismatch)
+      return;
+    try {
+      await fs.promises.mkdir(path.dirname(mismatch.expectedPath), { recursive: true });
+      await fs.promises.copyFile(mismatch.actualPath, mismatch.expectedPath);
+    } catch (e) {
+      void this._vscode.window.showErrorMessage(this._vscode.l10n.t('Unable to accept snapshot: {0}', (e as Error).message));
+      return;
+    }
+    this._mismatches.delete(id);
+    this._update();
+  }
+
+  private _reject(id: string) {
+    this._mismatches.delete(id);
+    this._update();
+  }
+
+  private _localResourceRoots(): vscodeTypes.Uri[] {
+    const directories = new Set<string>();
+    for (const mismatch of this._mismatches.values()) {
+      for (const file of [mismatch.expectedPath, mismatch.actualPath, mismatch.diffPath]) {
+        if (file)
+          directories.add(path.dirname(file));
+      }
+    }
+    return [this._extensionUri, ...[...directories].map(directory => this._vscode.Uri.file(directory))];
+  }
+
+  private _update() {
+    const panel = this._panel;
+    if (!panel)
+      return;
+    panel.webview.options = { ...panel.webview.options, localResourceRoots: this._localResourceRoots() };
+    // Cache-bust, baselines change in place when accepted.
+    const asSrc = (file: string) => `${panel.webview.asWebviewUri(this._vscode.Uri.file(file))}?${fs.existsSync(file) ? fs.statSync(file).mtimeMs : 0}`;
+    const snapshots = [...this._mismatches.values()].map(mismatch => ({
+      id: mismatch.id,
+      testTitle: mismatch.testTitle,
+      name: mismatch.name,
+      expected: asSrc(mismatch.expectedPath),
+      actual: asSrc(mismatch.actualPath),
+      diff: mismatch.diffPath ? asSrc(mismatch.diffPath) : undefined,
+    }));
+    void panel.webview.postMessage({ method: 'snapshots', params: { snapshots } });
+  }
+}
+
+function htmlForWebview(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Uri, webview: vscodeTypes.Webview) {
+  const style = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'media', 'common.css'));
+  const script = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'snapshotReview.script.js'));
+  const nonce = getNonce();
+
+  return html`
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; img-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <link href="${style}" rel="stylesheet">
+      <title>Playwright</title>
+    </head>
+    <body class="snapshot-review">
+      <p id="empty">${vscode.l10n.t('No snapshot mismatches to review.')}</p>
+      <template id="snapshotTemplate">
+        <div class="snapshot" role="listitem">
+          <div class="hbox snapshot-header">
+            <label class="snapshot-title"></label>
+            <select class="snapshot-mode" aria-label="${vscode.l10n.t('Comparison mode')}">
+              <option value="slider">${vscode.l10n.t('Slider')}</option>
+              <option value="overlay">${vscode.l10n.t('Overlay')}</option>
+              <option value="side-by-side">${vscode.l10n.t('Side by side')}</option>
+              <option value="diff">${vscode.l10n.t('Diff')}</option>
+            </select>
+            <button class="accept-snapshot">${vscode.l10n.t('Accept')}</button>
+            <button class="reject-snapshot">${vscode.l10n.t('Reject')}</button>
+          </div>
+          <div class="snapshot-comparison">
+            <figure class="snapshot-expected"><img alt="${vscode.l10n.t('Expected')}"><figcaption>${vscode.l10n.t('Expected')}</figcaption></figure>
+            <figure class="snapshot-actual"><img alt="${vscode.l10n.t('Actual')}"><figcaption>${vscode.l10n.t('Actual')}</figcaption></figure>
+            <figure class="snapshot-diff"><img alt="${vscode.l10n.t('Diff')}"><figcaption>${vscode.l10n.t('Diff')}</figcaption></figure>
+          </div>
+          <input class="snapshot-position" type="range" min="0" max="100" value="50" aria-label="${vscode.l10n.t('Position')}">
+        </div>
+      </template>
+      <div id="snapshots" role="list"></div>
+    </body>
+    <script nonce="${nonce}" src="${script}"></script>
+    </html>
+  `;
+}
@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DisposableBase } from './disposableBase';
+import type { RunRequestOptions, TestModelCollection } from './testModel';
+import { escapeRegex } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+type RunHandler = (request: vscodeTypes.TestRunRequest, token: vscodeTypes.CancellationToken, requestOptions: RunRequestOptions) => Promise<void>;
+
+/**
+ * Maintains one run profile per @tag discovered in the listed tests, plus
+ * profiles that let the user pick the tags of any test to include or exclude.
+ */
+export class TagRunProfiles extends DisposableBase {
+  private _vscode: vscodeTypes.VSCode;
+  private _testController: vscodeTypes.TestController;
+  private _models: TestModelCollection;
+  private _runHandler: RunHandler;
+  private _tagProfiles = new Map<string, vscodeTypes.TestRunProfile>();
+
+  constructor(vscode: vscodeTypes.VSCode, testController: vscodeTypes.TestController, models: TestModelCollection, runHandler: RunHandler) {
+    super();
+    this._vscode = vscode;
+    this._testController = testController;
+    this._models = models;
+    this._runHandler = runHandler;
+    this._disposables = [
+      testController.createRunProfile(vscode.l10n.t('Run tests with tags…'), vscode.TestRunProfileKind.Run, (request, token) => this._runWithPickedTags(request, token, 'include'), false),
+      testController.createRunProfile(vscode.l10n.t('Run tests without tags…'), vscode.TestRunProfileKind.Run, (request, token) => this._runWithPickedTags(request, token, 'exclude'), false),
+      models.onUpdated(() => this._update()),
+    ];
+  }
+
+  dispose() {
+    for (const profile of this._tagProfiles.values())
+      profile.dispose();
+    this._tagProfiles.clear();
+    super.dispose();
+  }
+
+  tags(): string[] {
+    const tags = new Set<string>();
+    for (const model of this._models.enabledModels()) {
+      for (const project of model.enabledProjects()) {
+        for (const test of project.suite.allTests())
+          test.tags.forEach(tag => tags.add(tag));
+      }
+    }
+    return [...tags].sort();
+  }
+
+  private _update() {
+    const tags = new Set(this.tags());
+    for (const [tag, profile] of this._tagProfiles) {
+      if (!tags.has(tag)) {
+        profile.dispose();
+        this._tagProfiles.delete(tag);
+      }
+    }
+    for (const tag of tags) {
+      if (this._tagProfiles.has(tag))
+        continue;
+      const profile = this._testController.createRunProfile(this._vscode.l10n.t('Run {0}', tag), this._vscode.TestRunProfileKind.Run, (request, token) => this._runHandler(request, token, { grep: tagsPattern([tag]) }), false);
+      this._tagProfiles.set(tag, profile);
+    }
+  }
+
+  private async _runWithPickedTags(request: vscodeTypes.TestRunRequest, token: vscodeTypes.CancellationToken, mode: 'include' | 'exclude') {
+    // Only the files that were opened or expanded are listed so far, offer the tags of all the tests.
+    for (const model of this._models.enabledModels())
+      await model.ensureTests([...model.enabledFiles()]);
+    const tags = this.tags();
+    if (!tags.length) {
+      void this._vscode.window.showWarningMessage(this._vscode.l10n.t('No tags found in the listed tests.'));
+      return;
+    }
+    const result = await this._vscode.window.showQuickPick(tags.map(tag => ({ label: tag })), {
+      title: mode === 'include' ? this._vscode.l10n.t('Select tags to run') : this._vscode.l10n.t('Select tags to exclude'),
+      canPickMany: true,
+    });
+    if (!result?.length)
+      return;
+    const pattern = tagsPattern(result.map(item => item.label));
+    await this._runHandler(request, token, mode === 'include' ? { grep: pattern } : { grepInvert: pattern });
+  }
+}
+
+function tagsPattern(tags: string[]): string {
+  // Tags are space-separated in the title that grep is matched against.
+  return `(?:^| )(?:${tags.map(escapeRegex).join('|')})(?: |$)`;
+}
@@ -0,0 +1,211 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { DisposableBase } from './disposableBase';
+import * as reporterTypes from './upstream/reporter';
+import { stripAnsi } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+export type TestHistoryEntry = {
+  status: reporterTypes.TestStatus;
+  ok: boolean;
+  duration: number;
+  retry: number;
+  project: string;
+  errorHash?: string;
+  timestamp: number;
+};
+
+export type TestHistoryRecord = {
+  testId: string;
+  configFile: string;
+  title: string;
+  location: reporterTypes.Location;
+  entries: TestHistoryEntry[];
+};
+
+export const testHistoryStateKey = 'pw.test-history';
+
+const kMaxEntriesPerTest = 20;
+const kTimelineLength = 10;
+const kStatBatchSize = 32;
+
+/**
+ * Keeps the outcome of every test result reported to the extension, keyed
+ * by the test id, so that we can tell chronically flaky tests from new failures.
+ */
+export class TestHistory extends DisposableBase {
+  private _vscode: vscodeTypes.VSCode;
+  private _context: vscodeTypes.ExtensionContext;
+  private _records = new Map<string, TestHistoryRecord>();
+  private _onChange: vscodeTypes.EventEmitter<string[]>;
+  readonly onChange: vscodeTypes.Event<string[]>;
+
+  constructor(vscode: vscodeTypes.VSCode, context: vscodeTypes.ExtensionContext) {
+    super();
+    this._vscode = vscode;
+    this._context = context;
+    this._onChange = new vscode.EventEmitter();
+    this.onChange = this._onChange.event;
+    this._disposables = [this._onChange];
+
+    const records = this._context.workspaceState.get(testHistoryStateKey) as TestHistoryRecord[] | undefined;
+    for (const record of records || [])
+      this._records.set(record.testId, record);
+  }
+
+  record(test: reporterTypes.TestCase, result: reporterTypes.TestResult, project: string, configFile: string) {
+    let record = this._records.get(test.id);
+    if (!record) {
+      record = { testId: test.id, configFile, title: test.title, location: test.location, entries: [] };
+      this._records.set(test.id, record);
+    }
+    record.title = test.title;
+    record.location = test.location;
+
+    const error = result.errors[0];
+    record.entries.push({
+      status: result.status,
+      ok: result.status === test.expectedStatus,
+      duration: result.duration,
+      retry: result.retry,
+      project,
+      errorHash: error ? errorHash(error) : undefined,
+      timestamp: result.startTime.getTime(),
+    });
+    if (record.entries.length > kMaxEntriesPerTest)
+      record.entries.splice(0, record.entries.length - kMaxEntriesPerTest);
+    this._onChange.fire([test.id]);
+  }
+
+  save() {
+    void this._context.workspaceState.update(testHistoryStateKey, [...this._records.values()]);
+  }
+
+  clear() {
+    const testIds = [...this._records.keys()];
+    this._records.clear();
+    this.save();
+    this._onChange.fire(testIds);
+  }
+
+  /**
+   * Drops the history of tests that are gone from the listed files, renamed tests get new ids.
+   */
+  prune(configFile: string, files: string[], testIds: string[]) {
+    const listedFiles = new Set(files);
+    const listedTestIds = new Set(testIds);
+    this._pruneRecords(record => record.configFile === configFile && listedFiles.has(record.location.file) && !listedTestIds.has(record.testId));
+  }
+
+  async pruneDeletedFiles() {
+    const files = [...new Set([...this._records.values()].map(record => record.location.file))];
+    const deletedFiles = new Set<string>();
+    // Stat a few files at a time, the history can span thousands of tests.
+    for (let i = 0; i < files.length; i += kStatBatchSize) {
+      await Promise.all(files.slice(i, i + kStatBatchSize).map(async file => {
+        if (!await fs.promises.stat(file).then(() => true, () => false))
+          deletedFiles.add(file);
+      }));
+    }
+    this._pruneRecords(record => deletedFiles.has(record.location.file));
+  }
+
+  private _pruneRecords(predicate: (record: TestHistoryRecord) => boolean) {
+    const testIds = [...this._records.values()].filter(predicate).map(record => record.testId);
+    if (!testIds.length)
+      return;
+    for (const testId of testIds)
+      this._records.delete(testId);
+    this.save();
+    this._onChange.fire(testIds);
+  }
+
+  records(): TestHistoryRecord[] {
+    return [...this._records.values()];
+  }
+
+  entries(testId: string): TestHistoryEntry[] {
+    return this._records.get(testId)?.entries || [];
+  }
+
+  /**
+   * Share of consecutive runs that flipped between passing and failing, 0 to 1.
+   * A test that only passed on retry counts as a flip on its own.
+   */
+  flakiness(testIds: string[]): number {
+    let flips = 0;
+    let transitions = 0;
+    for (const testId of testIds) {
+      const entries = this.entries(testId).filter(e => e.status !== 'skipped');
+      for (let i = 0; i < entries.length; ++i) {
+        if (entries[i].ok && entries[i].retry > 0) {
+          ++flips;
+          ++transitions;
+          continue;
+        }
+        if (i === 0)
+          continue;
+        ++transitions;
+        if (entries[i].ok !== entries[i - 1].ok)
+          ++flips;
+      }
+    }
+    return transitions ? flips / transitions : 0;
+  }
+
+  timeline(testId: string): string {
+    return this.entries(testId).slice(-kTimelineLength).map(timelineGlyph).join('');
+  }
+
+  /**
+   * Short summary for the Testing view, only present for tests that have flaked.
+   */
+  description(testIds: string[]): string | undefined {
+    const flakiness = this.flakiness(testIds);
+    if (!flakiness)
+      return;
+    return this._vscode.l10n.t('flaky {0}%', Math.round(flakiness * 100));
+  }
+
+  /**
+   * Timeline of the recent runs, shown when hovering the test in the editor.
+   */
+  hover(testIds: string[]): vscodeTypes.MarkdownString | undefined {
+    const timeline = testIds.map(id => this.timeline(id)).filter(Boolean).join(' ');
+    if (!timeline)
+      return;
+    const markdown = new this._vscode.MarkdownString();
+    markdown.appendMarkdown(this._vscode.l10n.t('Recent runs: {0}', timeline));
+    const description = this.description(testIds);
+    if (description)
+      markdown.appendMarkdown(` (${description})`);
+    return markdown;
+  }
+}
+
+function timelineGlyph(entry: TestHistoryEntry): string {
+  if (entry.status === 'skipped')
+    return '○';
+  return entry.ok ? '✓' : '✗';
+}
+
+function errorHash(error: reporterTypes.TestError): string {
+  const message = stripAnsi(error.message || error.value || '').split('\n')[0];
+  return crypto.createHash('sha1').update(message).digest('hex').substring(0, 8);
+}
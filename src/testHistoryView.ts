@@ -0,0 +1,87 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'path';
+import { DisposableBase } from './disposableBase';
+import type { TestHistory, TestHistoryEntry, TestHistoryRecord } from './testHistory';
+import * as vscodeTypes from './vscodeTypes';
+
+type HistoryNode = { record: TestHistoryRecord, entry?: TestHistoryEntry };
+
+export class TestHistoryView extends DisposableBase implements vscodeTypes.TreeDataProvider<HistoryNode> {
+  private _vscode: vscodeTypes.VSCode;
+  private _history: TestHistory;
+  private _onDidChangeTreeData: vscodeTypes.EventEmitter<void>;
+  readonly onDidChangeTreeData: vscodeTypes.Event<void>;
+
+  constructor(vscode: vscodeTypes.VSCode, history: TestHistory) {
+    super();
+    this._vscode = vscode;
+    this._history = history;
+    this._onDidChangeTreeData = new vscode.EventEmitter();
+    this.onDidChangeTreeData = this._onDidChangeTreeData.event;
+    this._disposables = [
+      this._onDidChangeTreeData,
+      history.onChange(() => this._onDidChangeTreeData.fire()),
+      vscode.window.registerTreeDataProvider('pw.extension.testHistoryView', this),
+    ];
+  }
+
+  getChildren(node?: HistoryNode): HistoryNode[] {
+    if (node)
+      return node.entry ? [] : [...node.record.entries].reverse().map(entry => ({ record: node.record, entry }));
+    const records = this._history.records().filter(r => r.entries.length);
+    const flakiness = new Map(records.map(r => [r, this._history.flakiness([r.testId])]));
+    records.sort((a, b) => {
+      const delta = flakiness.get(b)! - flakiness.get(a)!;
+      if (delta)
+        return delta;
+      return b.entries[b.entries.length - 1].timestamp - a.entries[a.entries.length - 1].timestamp;
+    });
+    return records.map(record => ({ record }));
+  }
+
+  getTreeItem(node: HistoryNode): vscodeTypes.TreeItem {
+    const { record, entry } = node;
+    if (!entry) {
+      const flakiness = Math.round(this._history.flakiness([record.testId]) * 100);
+      const item = new this._vscode.TreeItem(record.title, this._vscode.TreeItemCollapsibleState.Collapsed);
+      item.description = `${this._history.timeline(record.testId)} ${this._vscode.l10n.t('flaky {0}%', flakiness)}`;
+      item.tooltip = `${path.basename(record.location.file)}:${record.location.line}`;
+      item.command = {
+        title: this._vscode.l10n.t('Go to test'),
+        command: 'vscode.open',
+        arguments: [
+          this._vscode.Uri.file(record.location.file),
+          { selection: new this._vscode.Range(Math.max(record.location.line - 1, 0), 0, Math.max(record.location.line - 1, 0), 0) },
+        ],
+      };
+      return item;
+    }
+
+    const item = new this._vscode.TreeItem(`${entry.status} — ${entry.duration}ms`, this._vscode.TreeItemCollapsibleState.None);
+    item.iconPath = new this._vscode.ThemeIcon(entry.status === 'skipped' ? 'circle-outline' : entry.ok ? 'pass' : 'error');
+    const details = [new Date(entry.timestamp).toLocaleString()];
+    if (entry.project)
+      details.push(entry.project);
+    if (entry.retry)
+      details.push(this._vscode.l10n.t('retry #{0}', entry.retry));
+    item.description = details.join(' · ');
+    if (entry.errorHash)
+      item.tooltip = this._vscode.l10n.t('Error signature: {0}', entry.errorHash);
+    return item;
+  }
+}
@@ -16,12 +16,14 @@
 
 import { WorkspaceChange } from './workspaceObserver';
 import * as vscodeTypes from './vscodeTypes';
-import { resolveSourceMap, uriToPath } from './utils';
+import { escapeRegex, resolveSourceMap, uriToPath } from './utils';
 import { ConfigListFilesReport, ProjectConfigWithFiles } from './listTests';
 import * as reporterTypes from './upstream/reporter';
 import { TeleSuite } from './upstream/teleReceiver';
 import { workspaceStateKey } from './settingsModel';
 import type { ConfigSettings, SettingsModel, WorkspaceSettings } from './settingsModel';
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { DisposableBase } from './disposableBase';
 import { MultiMap } from './multimap';
@@ -30,7 +32,9 @@ import { upstreamTreeItem } from './testTree';
 import { collectTestIds } from './upstream/testTree';
 import { TraceViewer } from './traceViewer';
 import { SpawnTraceViewer } from './spawnTraceViewer';
+import { EmbeddedTraceViewer } from './embeddedTraceViewer';
 import { TestServerConnectionClosedError } from './upstream/testServerConnection';
+import { LineCoverage, readCoverage } from './coverage';
 
 export type TestEntry = reporterTypes.TestCase | reporterTypes.Suite;
 
@@ -56,6 +60,18 @@ export type TestModelEmbedder = {
   onStdOut: vscodeTypes.Event<string>;
   requestWatchRun: (files: string[], testItems: vscodeTypes.TestItem[]) => void;
   testPausedHandler: (params: { errors: reporterTypes.TestError[] }) => any;
+  testsListed: (configFile: string, files: string[], testIds: string[]) => void;
+};
+
+export type RunRequestOptions = {
+  grep?: string;
+  grepInvert?: string;
+  // Split the run across multiple test server processes.
+  sharded?: boolean;
+  // Collect JS coverage from the browser pages.
+  coverage?: boolean;
+  // Do not reuse the browser context of "show browser" mode, the context is closed at the end of the test.
+  freshContext?: boolean;
 };
 
 type Watch = {
@@ -101,6 +117,7 @@ export class TestModel extends DisposableBase {
 
     this._disposables = [
       this._embedder.settingsModel.showTrace.onChange(() => this.updateTraceViewer(false)),
+      this._embedder.settingsModel.embeddedTraceViewer.onChange(() => this.updateTraceViewer(false)),
       this._collection.onUpdated(() => this.updateTraceViewer(false)),
     ];
   }
@@ -411,6 +428,7 @@ export class TestModel extends DisposableBase {
       },
     }, new this._vscode.CancellationTokenSource().token);
     this._updateProjects(rootSuite!.suites, files, errors);
+    this._embedder.testsListed(this.config.configFile, files.filter(file => !this._errorByFile.has(file)), rootSuite!.allTests().map(test => test.id));
   }
 
   private _updateProjects(newProjectSuites: reporterTypes.Suite[], requestedFiles: string[], errors: reporterTypes.TestError[]) {
@@ -524,7 +542,7 @@ export class TestModel extends DisposableBase {
     await this._playwrightTest.clearCache();
   }
 
-  async runTests(request: vscodeTypes.TestRunRequest, reporter: reporterTypes.ReporterV2, token: vscodeTypes.CancellationToken) {
+  async runTests(request: vscodeTypes.TestRunRequest, reporter: reporterTypes.ReporterV2, token: vscodeTypes.CancellationToken, requestOptions: RunRequestOptions = {}): Promise<Map<string, LineCoverage> | undefined> {
     if (token?.isCancellationRequested)
       return;
 
@@ -537,7 +555,7 @@ export class TestModel extends DisposableBase {
       return;
 
     const externalOptions = await this._embedder.runHooks.onWillRunTests(this.config, false);
-    const showBrowser = this._embedder.settingsModel.showBrowser.get() && !!externalOptions.connectWsEndpoint;
+    const showBrowser = !requestOptions.freshContext && this._embedder.settingsModel.showBrowser.get() && !!externalOptions.connectWsEndpoint;
 
     let trace: 'on' | 'off' | undefined;
     let video: 'on' | 'off' | undefined;
@@ -562,17 +580,102 @@ export class TestModel extends DisposableBase {
       connectWsEndpoint: showBrowser ? externalOptions.connectWsEndpoint : undefined,
       updateSnapshots: noOverrideToUndefined(this._embedder.settingsModel.updateSnapshots.get()),
       updateSourceMethod: noOverrideToUndefined(this._embedder.settingsModel.updateSourceMethod.get()),
+      ...this._filterRunOptions(requestOptions),
     };
 
     try {
       if (token?.isCancellationRequested)
         return;
-      await this._playwrightTest.runTests(request, options, reporter, token);
+      // Reused browser can not be shared between processes, so "show browser" runs are never sharded.
+      const shardCount = (requestOptions.sharded && !showBrowser && this._embedder.settingsModel.shardCount.get()) || 1;
+      // Coverage is collected by a preloaded script, so it needs test servers of its own.
+      if (requestOptions.coverage)
+        return await this._runTestsWithCoverage(request, options, reporter, token, shardCount);
+      await this._runIterations(options, reporter, token, (runOptions, runReporter) => {
+        return shardCount > 1 ? this._playwrightTest.runShardedTests(request, runOptions, runReporter, token, shardCount) : this._playwrightTest.runTests(request, runOptions, runReporter, token);
+      });
     } finally {
       await this._embedder.runHooks.onDidRunTests();
     }
   }
 
+  // The test server runs every test once, so repeats and retries are driven from here.
+  // Retries only re-run the tests that failed, their results are reported with the retry index.
+  // Every iteration reports tests of its own, their results are merged into the test cases
+  // of the first iteration, so that the outcome of a test is derived from all of its results.
+  private async _runIterations(options: PlaywrightTestRunOptions, reporter: reporterTypes.ReporterV2, token: vscodeTypes.CancellationToken, run: (options: PlaywrightTestRunOptions, reporter: reporterTypes.ReporterV2) => Promise<void>) {
+    const repeatEach = this._embedder.settingsModel.repeatEach.get() || 1;
+    const retries = this._embedder.settingsModel.retries.get() || 0;
+    const testsById = new Map<string, reporterTypes.TestCase>();
+    const mergedTest = (test: reporterTypes.TestCase, result?: reporterTypes.TestResult) => {
+      const merged = testsById.get(test.id);
+      if (!merged) {
+        testsById.set(test.id, test);
+        return test;
+      }
+      if (result && merged !== test && !merged.results.includes(result))
+        merged.results.push(result);
+      return merged;
+    };
+    for (let i = 0; i < repeatEach && !token.isCancellationRequested; ++i) {
+      let failedTestIds: string[] = [];
+      for (let retry = 0; retry <= retries && !token.isCancellationRequested; ++retry) {
+        if (retry && !failedTestIds.length)
+          break;
+        const testIds = failedTestIds;
+        failedTestIds = [];
+        const iterationReporter: reporterTypes.ReporterV2 = {
+          ...reporter,
+          onBegin: rootSuite => {
+            if (testsById.size)
+              return;
+            for (const test of rootSuite.allTests())
+              testsById.set(test.id, test);
+            reporter.onBegin?.(rootSuite);
+          },
+          onTestBegin: (test, result) => {
+            result.retry = retry;
+            reporter.onTestBegin?.(mergedTest(test, result), result);
+          },
+          onTestEnd: (test, result) => {
+            if (result.status !== 'skipped' && result.status !== test.expectedStatus)
+              failedTestIds.push(test.id);
+            reporter.onTestEnd?.(mergedTest(test, result), result);
+          },
+          onStepBegin: (test, result, step) => reporter.onStepBegin?.(mergedTest(test, result), result, step),
+          onStepEnd: (test, result, step) => reporter.onStepEnd?.(mergedTest(test, result), result, step),
+          onStdOut: (chunk, test, result) => reporter.onStdOut?.(chunk, test && mergedTest(test, result), result),
+          onStdErr: (chunk, test, result) => reporter.onStdErr?.(chunk, test && mergedTest(test, result), result),
+        };
+        await run(retry ? { ...options, testIds } : options, iterationReporter);
+      }
+    }
+  }
+
+  private async _runTestsWithCoverage(request: vscodeTypes.TestRunRequest, options: PlaywrightTestRunOptions, reporter: reporterTypes.ReporterV2, token: vscodeTypes.CancellationToken, shardCount: number): Promise<Map<string, LineCoverage>> {
+    // Coverage is collected through the browser context hooks of playwright-core.
+    if (!this._checkVersion(1.40, this._vscode.l10n.t('coverage'), true))
+      return new Map();
+    const coverageDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'pw-coverage-'));
+    try {
+      const env = {
+        NODE_OPTIONS: [process.env.NODE_OPTIONS, `--require ${JSON.stringify(require.resolve('./coverageCollector'))}`].filter(Boolean).join(' '),
+        PW_VSCODE_COVERAGE_DIR: coverageDir,
+        PW_VSCODE_PLAYWRIGHT_CLI: this.config.cli,
+      };
+      // Coverage of all the iterations is collected into the same directory.
+      await this._runIterations(options, reporter, token, (runOptions, runReporter) => {
+        return this._playwrightTest.runShardedTests(request, runOptions, runReporter, token, shardCount, env);
+      });
+      return await readCoverage(coverageDir, [...new Set([path.dirname(this.config.configFile), this.config.workspaceFolder])]).catch(error => {
+        void this._vscode.window.showErrorMessage(this._vscode.l10n.t('Unable to collect coverage: {0}', error.message));
+        return new Map();
+      });
+    } finally {
+      await fs.promises.rm(coverageDir, { recursive: true, force: true });
+    }
+  }
+
   async debugTests(request: vscodeTypes.TestRunRequest, reporter: reporterTypes.ReporterV2, token: vscodeTypes.CancellationToken) {
     if (token?.isCancellationRequested)
       return;
@@ -620,6 +723,23 @@ export class TestModel extends DisposableBase {
     }
   }
 
+  private _filterRunOptions(requestOptions: RunRequestOptions): Pick<PlaywrightTestRunOptions, 'grep' | 'grepInvert' | 'excludeTestIds'> {
+    const settingsModel = this._embedder.settingsModel;
+    const quarantine = settingsModel.quarantineMode.get() === 'skip' ? settingsModel.quarantinedTests() : [];
+    // Test ids only narrow down test id runs, file and folder runs are filtered by title.
+    // The grep title is "<project> <file> <describes> <title>", each followed by its tags,
+    // anchor the pattern so that quarantining "login" does not skip "login with sso".
+    const grepInvert = [
+      ...(requestOptions.grepInvert ? [requestOptions.grepInvert] : []),
+      ...quarantine.map(t => '(?:^| )' + t.titlePath.map(escapeRegex).join(' (?:@\\S+ )*') + '(?: @\\S+)*$'),
+    ];
+    return {
+      grep: requestOptions.grep,
+      grepInvert: grepInvert.length ? grepInvert.join('|') : undefined,
+      excludeTestIds: quarantine.length ? quarantine.map(t => t.testId) : undefined,
+    };
+  }
+
   private _mapFilesToSources(testDirs: string[], files: Set<string>): string[] {
     const result = new Set<string>();
     for (const file of files) {
@@ -727,13 +847,17 @@ export class TestModel extends DisposableBase {
     if (!this._traceViewer && !settingsModel.showTrace.get())
       return null;
 
-    if (!settingsModel.showTrace.get() || this._collection.selectedModel() !== this) {
+    const embedded = !!settingsModel.embeddedTraceViewer.get();
+    if (!settingsModel.showTrace.get() || this._collection.selectedModel() !== this || (this._traceViewer && (this._traceViewer instanceof EmbeddedTraceViewer) !== embedded)) {
       this._traceViewer?.close();
       this._traceViewer = null;
-      return null;
     }
+    if (!settingsModel.showTrace.get() || this._collection.selectedModel() !== this)
+      return null;
 
-    if (!this._traceViewer && this._checkVersion(1.35, this._vscode.l10n.t('this feature'), userGesture))
+    if (!this._traceViewer && embedded && this._checkVersion(1.46, this._vscode.l10n.t('embedded trace viewer'), userGesture))
+      this._traceViewer = new EmbeddedTraceViewer(this._vscode, this._embedder.context.extensionUri, this._embedder.envProvider, this.config);
+    else if (!this._traceViewer && !embedded && this._checkVersion(1.35, this._vscode.l10n.t('this feature'), userGesture))
       this._traceViewer = new SpawnTraceViewer(this._vscode, this._embedder.envProvider, this.config);
 
     return this._traceViewer;
@@ -896,7 +1020,8 @@ export class TestModelCollection extends DisposableBase {
   }
 
   _saveSettings() {
-    const workspaceSettings: WorkspaceSettings = { configs: [] };
+    const existingSettings = this.embedder.context.workspaceState.get(workspaceStateKey) as WorkspaceSettings | undefined;
+    const workspaceSettings: WorkspaceSettings = { ...existingSettings, configs: [] };
     for (const model of this._models) {
       workspaceSettings.configs!.push({
         relativeConfigFile: path.relative(model.config.workspaceFolder, model.config.configFile),
@@ -918,6 +1043,13 @@ function projectFiles(project: TestProject): Map<string, reporterTypes.Suite> {
 
 const listFilesFlag = Symbol('listFilesFlag');
 
+export function ancestorProject(test: reporterTypes.TestCase): reporterTypes.FullProject {
+  let suite: reporterTypes.Suite = test.parent;
+  while (!suite.project())
+    suite = suite.parent!;
+  return suite.project()!;
+}
+
 function isAncestorOf(root: vscodeTypes.TestItem, descendent: vscodeTypes.TestItem) {
   while (descendent.parent) {
     if (descendent.parent === root)
@@ -0,0 +1,119 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DisposableBase } from './disposableBase';
+import * as reporterTypes from './upstream/reporter';
+import { stripAnsi } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+type StepNode = {
+  title: string;
+  duration: number;
+  failed: boolean;
+  error?: string;
+  location?: vscodeTypes.Location;
+  steps: StepNode[];
+};
+
+type TestNode = StepNode & { testItemId: string, location: vscodeTypes.Location };
+
+/**
+ * Shows the `test.step` hierarchy of the last run of each test.
+ */
+export class TestStepsView extends DisposableBase implements vscodeTypes.TreeDataProvider<StepNode> {
+  private _vscode: vscodeTypes.VSCode;
+  private _asLocation: (location: reporterTypes.Location) => vscodeTypes.Location;
+  private _tests = new Map<string, TestNode>();
+  private _onDidChangeTreeData: vscodeTypes.EventEmitter<void>;
+  readonly onDidChangeTreeData: vscodeTypes.Event<void>;
+
+  constructor(vscode: vscodeTypes.VSCode, asLocation: (location: reporterTypes.Location) => vscodeTypes.Location) {
+    super();
+    this._vscode = vscode;
+    this._asLocation = asLocation;
+    this._onDidChangeTreeData = new vscode.EventEmitter();
+    this.onDidChangeTreeData = this._onDidChangeTreeData.event;
+    this._disposables = [
+      this._onDidChangeTreeData,
+      vscode.window.registerTreeDataProvider('pw.extension.testStepsView', this),
+    ];
+  }
+
+  testEnded(testItem: vscodeTypes.TestItem, test: reporterTypes.TestCase, result: reporterTypes.TestResult) {
+    const steps = this._userSteps(result.steps);
+    if (!steps.length && !this._tests.has(testItem.id))
+      return;
+    this._tests.set(testItem.id, {
+      testItemId: testItem.id,
+      title: test.title,
+      duration: result.duration,
+      failed: result.status !== test.expectedStatus,
+      location: this._asLocation(test.location),
+      steps,
+    });
+    this._onDidChangeTreeData.fire();
+  }
+
+  // Only `test.step` calls are shown, API calls and expects inside of them are skipped.
+  private _userSteps(steps: reporterTypes.TestStep[]): StepNode[] {
+    const result: StepNode[] = [];
+    for (const step of steps) {
+      if (step.category !== 'test.step') {
+        result.push(...this._userSteps(step.steps));
+        continue;
+      }
+      result.push({
+        title: step.title,
+        duration: step.duration,
+        failed: !!step.error,
+        error: step.error ? stripAnsi(step.error.message || step.error.value || '') : undefined,
+        location: step.location ? this._asLocation(step.location) : undefined,
+        steps: this._userSteps(step.steps),
+      });
+    }
+    return result;
+  }
+
+  getChildren(node?: StepNode): StepNode[] {
+    if (node)
+      return node.steps;
+    return [...this._tests.values()].sort((a, b) => {
+      const fileDelta = a.location.uri.toString().localeCompare(b.location.uri.toString());
+      return fileDelta || a.location.range.start.line - b.location.range.start.line;
+    });
+  }
+
+  getTreeItem(node: StepNode): vscodeTypes.TreeItem {
+    const isTest = 'testItemId' in node;
+    const collapsibleState = !node.steps.length ? this._vscode.TreeItemCollapsibleState.None : isTest ? this._vscode.TreeItemCollapsibleState.Collapsed : this._vscode.TreeItemCollapsibleState.Expanded;
+    const item = new this._vscode.TreeItem(node.title, collapsibleState);
+    item.iconPath = new this._vscode.ThemeIcon(node.failed ? 'error' : 'pass');
+    const details = [`${node.duration}ms`];
+    if (node.error)
+      details.push(node.error.split('\n')[0]);
+    item.description = details.join(' · ');
+    if (node.error)
+      item.tooltip = node.error;
+    if (node.location) {
+      item.command = {
+        title: isTest ? this._vscode.l10n.t('Go to test') : this._vscode.l10n.t('Go to step'),
+        command: 'vscode.open',
+        arguments: [node.location.uri, { selection: node.location.range }],
+      };
+    }
+    return item;
+  }
+}
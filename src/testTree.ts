@@ -23,6 +23,7 @@ import * as reporterTypes from './upstream/reporter';
 import * as upstream from './upstream/testTree';
 import { TeleSuite } from './upstream/teleReceiver';
 import { DisposableBase } from './disposableBase';
+import type { TestHistory } from './testHistory';
 
 /**
  * This class maps a collection of TestModels into the UI terms, it merges
@@ -43,15 +44,23 @@ export class TestTree extends DisposableBase {
   private _loadingItem: vscodeTypes.TestItem;
   private _testItemByTestId = new Map<string, vscodeTypes.TestItem>();
   private _testItemByFile = new Map<string, vscodeTypes.TestItem>();
+  private _testHistory: TestHistory;
+  private _quarantinedTestIds = new Set<string>();
 
-  constructor(vscode: vscodeTypes.VSCode, models: TestModelCollection, testController: vscodeTypes.TestController) {
+  constructor(vscode: vscodeTypes.VSCode, models: TestModelCollection, testController: vscodeTypes.TestController, testHistory: TestHistory) {
     super();
     this._vscode = vscode;
     this._models = models;
     this._testController = testController;
+    this._testHistory = testHistory;
     this._loadingItem = this._testController.createTestItem('loading', 'Loading\u2026');
     this._disposables = [
       models.onUpdated(() => this._update()),
+      testHistory.onChange(testIds => this._updateHistory(testIds)),
+      models.embedder.settingsModel.onQuarantineChange(() => this._update()),
+      vscode.languages.registerHoverProvider(['javascript', 'javascriptreact', 'typescript', 'typescriptreact'].map(language => ({ language, scheme: 'file' })), {
+        provideHover: (document, position) => this._historyHover(document, position),
+      }),
     ];
   }
 
@@ -91,6 +100,7 @@ export class TestTree extends DisposableBase {
   }
 
   private _update() {
+    this._quarantinedTestIds = new Set(this._models.embedder.settingsModel.quarantinedTests().map(t => t.testId));
     for (const workspaceFolder of this._vscode.workspace.workspaceFolders ?? []) {
       const disabledProjects: TestProject[] = [];
       const configErrorsByModel = new Map<TestModel, reporterTypes.TestError[]>();
@@ -162,8 +172,16 @@ export class TestTree extends DisposableBase {
         vsChildren.add(vsChild);
       }
       (vsChild as any)[testTreeItemSymbol] = uChild;
-      if (uChild.kind === 'case' && !areEqualTags(uChild.tags, vsChild.tags))
-        vsChild.tags = uChild.tags.map(tag => new this._vscode.TestTag(tag));
+      if (uChild.kind === 'case' || uChild.kind === 'test') {
+        const tags = uChild.kind === 'case' ? [...uChild.tags] : [];
+        const testIds = uChild.kind === 'case' ? uChild.tests.map(t => t.id) : [uChild.test.id];
+        if (testIds.some(id => this._quarantinedTestIds.has(id)))
+          tags.push(quarantinedTag);
+        if (!areEqualTags(tags, vsChild.tags))
+          vsChild.tags = tags.map(tag => new this._vscode.TestTag(tag));
+      }
+      if (uChild.kind === 'case')
+        this._updateHistoryDescription(uChild, vsChild);
       const hasLocation = uChild.location.line || uChild.location.column;
       if (hasLocation && (!vsChild.range || vsChild.range.start.line + 1 !== uChild.location.line)) {
         const line = uChild.location.line;
@@ -180,6 +198,38 @@ export class TestTree extends DisposableBase {
     }
   }
 
+  private _updateHistory(testIds: string[]) {
+    for (const testId of testIds) {
+      let testItem = this._testItemByTestId.get(testId);
+      if (testItem && upstreamTreeItem(testItem).kind === 'test')
+        testItem = testItem.parent;
+      const treeItem = testItem ? upstreamTreeItem(testItem) : undefined;
+      if (treeItem?.kind === 'case')
+        this._updateHistoryDescription(treeItem, testItem!);
+    }
+  }
+
+  private _updateHistoryDescription(uItem: upstream.TestCaseItem, vsItem: vscodeTypes.TestItem) {
+    const description = this._testHistory.description(uItem.tests.map(t => t.id));
+    if (vsItem.description !== description)
+      vsItem.description = description;
+  }
+
+  private _historyHover(document: vscodeTypes.TextDocument, position: vscodeTypes.Position): vscodeTypes.Hover | null {
+    const testIds: string[] = [];
+    const visit = (item: vscodeTypes.TestItem) => {
+      const treeItem = upstreamTreeItem(item);
+      if (treeItem?.kind === 'case' && item.range?.start.line === position.line)
+        testIds.push(...treeItem.tests.map(t => t.id));
+      item.children.forEach(visit);
+    };
+    const fileItem = this._testItemByFile.get(uriToPath(document.uri));
+    if (fileItem)
+      visit(fileItem);
+    const markdown = this._testHistory.hover(testIds);
+    return markdown ? new this._vscode.Hover(markdown) : null;
+  }
+
   private _syncDisabledProjects(workspaceRootItem: vscodeTypes.TestItem, disabledProjects: TestProject[]) {
     const topLevelItems: string[] = [];
     workspaceRootItem.children.forEach(item => topLevelItems.push(item.id));
@@ -326,6 +376,8 @@ export function configError(item: vscodeTypes.TestItem): reporterTypes.TestError
   return (item as any)[configErrorSymbol];
 }
 
+export const quarantinedTag = 'quarantined';
+
 const testTreeItemSymbol = Symbol('testTreeItemSymbol');
 const disabledProjectSymbol = Symbol('disabledProjectSymbol');
 const configErrorSymbol = Symbol('configErrorSymbol');
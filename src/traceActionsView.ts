@@ -0,0 +1,205 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DisposableBase } from './disposableBase';
+import { flattenActions, loadTrace, readTraceResources, TraceAction, TraceModel } from './traceModel';
+import { uriToPath } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+type SnapshotNode = {
+  action: TraceAction;
+  kind: 'before' | 'after';
+  file: string;
+};
+
+type Node = TraceAction | SnapshotNode;
+
+/**
+ * Lists the actions of the selected test's trace and keeps them in sync with the editor:
+ * clicking an action opens its source line, moving the cursor onto a line reveals its action
+ * together with the screenshots taken before and after it.
+ */
+export class TraceActionsView extends DisposableBase implements vscodeTypes.TreeDataProvider<Node> {
+  private _vscode: vscodeTypes.VSCode;
+  private _treeView: vscodeTypes.TreeView<Node>;
+  private _decorationType: vscodeTypes.TextEditorDecorationType;
+  private _traceUrl: string | undefined;
+  private _trace: TraceModel | undefined;
+  private _snapshotsDir: string | undefined;
+  private _snapshots = new Map<string, string>();
+  private _onDidChangeTreeData: vscodeTypes.EventEmitter<void>;
+  readonly onDidChangeTreeData: vscodeTypes.Event<void>;
+
+  constructor(vscode: vscodeTypes.VSCode) {
+    super();
+    this._vscode = vscode;
+    this._onDidChangeTreeData = new vscode.EventEmitter();
+    this.onDidChangeTreeData = this._onDidChangeTreeData.event;
+    this._treeView = vscode.window.createTreeView('pw.extension.traceActionsView', { treeDataProvider: this });
+    this._decorationType = vscode.window.createTextEditorDecorationType({
+      isWholeLine: true,
+      after: {
+        color: { id: 'editorCodeLens.foreground' },
+      },
+    });
+    this._disposables = [
+      this._onDidChangeTreeData,
+      this._treeView,
+      vscode.window.onDidChangeVisibleTextEditors(() => this._updateDecorations()),
+      vscode.window.onDidChangeTextEditorSelection(event => this._selectionChanged(event)),
+      { dispose: () => this._removeSnapshots() },
+    ];
+  }
+
+  async showTrace(traceUrl: string | undefined) {
+    // Traces of running tests are not zipped yet, they are shown once the test ends.
+    if (!traceUrl?.endsWith('.zip'))
+      traceUrl = undefined;
+    if (traceUrl === this._traceUrl)
+      return;
+    this._traceUrl = traceUrl;
+    const trace = traceUrl ? await loadTrace(traceUrl).catch(() => undefined) : undefined;
+    if (traceUrl !== this._traceUrl)
+      return;
+    this._trace = trace;
+    await this._writeSnapshots();
+    this._onDidChangeTreeData.fire();
+    this._updateDecorations();
+  }
+
+  private async _writeSnapshots() {
+    this._removeSnapshots();
+    const trace = this._trace;
+    const sha1s = new Set<string>();
+    for (const action of flattenActions(trace?.actions || [])) {
+      for (const sha1 of [action.beforeFrame, action.afterFrame]) {
+        if (sha1)
+          sha1s.add(sha1);
+      }
+    }
+    if (!trace || !sha1s.size)
+      return;
+    const frames = await readTraceResources(trace, [...sha1s]).catch(() => new Map<string, Buffer>());
+    if (!frames.size || trace !== this._trace)
+      return;
+    const snapshotsDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'pw-trace-snapshots-'));
+    this._snapshotsDir = snapshotsDir;
+    for (const [sha1, buffer] of frames) {
+      const file = path.join(snapshotsDir, sha1);
+      await fs.promises.writeFile(file, buffer);
+      this._snapshots.set(sha1, file);
+    }
+  }
+
+  private _removeSnapshots() {
+    if (this._snapshotsDir)
+      fs.rmSync(this._snapshotsDir, { recursive: true, force: true });
+    this._snapshotsDir = undefined;
+    this._snapshots.clear();
+  }
+
+  private _actionsInFile(file: string): TraceAction[] {
+    return flattenActions(this._trace?.actions || []).filter(action => action.location && uriToPath(this._vscode.Uri.file(action.location.file)) === file);
+  }
+
+  private _updateDecorations() {
+    for (const editor of this._vscode.window.visibleTextEditors) {
+      const decorationCount: Record<number, number> = {};
+      const decorations: Record<number, vscodeTypes.DecorationOptions> = {};
+      for (const action of this._actionsInFile(uriToPath(editor.document.uri))) {
+        const line = action.location!.line - 1;
+        decorationCount[line] ??= 0;
+        const count = ++decorationCount[line];
+        const duration = action.endTime !== undefined ? ` ${Math.round(action.endTime - action.startTime)}ms` : '';
+        decorations[line] = {
+          range: new this._vscode.Range(line, 0, line, 0),
+          renderOptions: {
+            after: {
+              contentText: ` — ${action.error ? '✘' : '✔'}${duration}${count > 1 ? ` (ran ${count}×)` : ''}`,
+            }
+          }
+        };
+      }
+      editor.setDecorations(this._decorationType, Object.values(decorations));
+    }
+  }
+
+  private _selectionChanged(event: vscodeTypes.TextEditorSelectionChangeEvent) {
+    if (!this._trace || !this._treeView.visible)
+      return;
+    const line = event.selections[0]?.active.line;
+    const actions = this._actionsInFile(uriToPath(event.textEditor.document.uri)).filter(action => action.location!.line - 1 === line);
+    // Nested actions come after their parents, prefer the innermost one.
+    const action = actions[actions.length - 1];
+    if (action)
+      void this._treeView.reveal(action, { select: true, focus: false, expand: true });
+  }
+
+  getChildren(node?: Node): Node[] {
+    if (!node)
+      return this._trace?.actions || [];
+    if ('kind' in node)
+      return [];
+    const snapshots: SnapshotNode[] = [];
+    const before = node.beforeFrame && this._snapshots.get(node.beforeFrame);
+    if (before)
+      snapshots.push({ action: node, kind: 'before', file: before });
+    const after = node.afterFrame && this._snapshots.get(node.afterFrame);
+    if (after)
+      snapshots.push({ action: node, kind: 'after', file: after });
+    return [...snapshots, ...node.children];
+  }
+
+  getParent(node: Node): Node | undefined {
+    return 'kind' in node ? node.action : node.parent;
+  }
+
+  getTreeItem(node: Node): vscodeTypes.TreeItem {
+    if ('kind' in node) {
+      const item = new this._vscode.TreeItem(node.kind === 'before' ? this._vscode.l10n.t('Before') : this._vscode.l10n.t('After'));
+      item.iconPath = new this._vscode.ThemeIcon('device-camera');
+      item.command = {
+        title: this._vscode.l10n.t('Show snapshot'),
+        command: 'vscode.open',
+        arguments: [this._vscode.Uri.file(node.file)],
+      };
+      return item;
+    }
+    const hasChildren = !!node.children.length || !!node.beforeFrame || !!node.afterFrame;
+    const item = new this._vscode.TreeItem(node.title, hasChildren ? this._vscode.TreeItemCollapsibleState.Collapsed : this._vscode.TreeItemCollapsibleState.None);
+    item.iconPath = new this._vscode.ThemeIcon(node.error ? 'error' : 'pass');
+    const details: string[] = [];
+    if (node.endTime !== undefined)
+      details.push(`${Math.round(node.endTime - node.startTime)}ms`);
+    if (node.error)
+      details.push(node.error.split('\n')[0]);
+    item.description = details.join(' · ');
+    if (node.error)
+      item.tooltip = node.error;
+    if (node.location) {
+      const position = new this._vscode.Position(node.location.line - 1, node.location.column - 1);
+      item.command = {
+        title: this._vscode.l10n.t('Go to action'),
+        command: 'vscode.open',
+        arguments: [this._vscode.Uri.file(node.location.file), { selection: new this._vscode.Range(position, position) }],
+      };
+    }
+    return item;
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { escapeHTML } from './ansi2html';
+import { isConsoleError } from './consoleLogView';
+import { DisposableBase } from './disposableBase';
+import { flattenActions, loadTrace, TraceAction, TraceConsoleMessage, TraceModel, TraceNetworkRequest } from './traceModel';
+import { html, uriToPath } from './utils';
+import * as vscodeTypes from './vscodeTypes';
+
+type ActionRow = {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  depth: number;
+  baseline?: TraceAction;
+  current?: TraceAction;
+};
+
+type NetworkRow = {
+  request: string;
+  baseline?: TraceNetworkRequest;
+  current?: TraceNetworkRequest;
+};
+
+export type TraceDiff = {
+  actions: ActionRow[];
+  network: NetworkRow[];
+  consoleErrors: { baseline: TraceConsoleMessage[], current: TraceConsoleMessage[] };
+};
+
+/**
+ * Compares two traces of the same test action by action, by default the trace picked
+ * as the baseline of a test against its latest one.
+ */
+export class TraceComparison extends DisposableBase {
+  private _vscode: vscodeTypes.VSCode;
+  private _extensionUri: vscodeTypes.Uri;
+  // Traces in the output folder are removed by the next run, baselines are kept aside
+  // until the window is reloaded.
+  private _tracesDir: string | undefined;
+  private _baselines = new Map<string, string>();
+  private _lastTraceId = 0;
+  private _panel: vscodeTypes.WebviewPanel | undefined;
+
+  constructor(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Uri) {
+    super();
+    this._vscode = vscode;
+    this._extensionUri = extensionUri;
+  }
+
+  async setBaseline(testItem: vscodeTypes.TestItem, trace: string | undefined) {
+    if (!trace?.endsWith('.zip') || !fs.existsSync(trace)) {
+      void this._vscode.window.showErrorMessage(this._vscode.l10n.t('Test "{0}" has no trace, run it with tracing on first.', testItem.label));
+      return;
+    }
+    try {
+      this._tracesDir ??= await fs.promises.mkdtemp(path.join(os.tmpdir(), 'pw-baseline-traces-'));
+      const file = path.join(this._tracesDir, `${++this._lastTraceId}.zip`);
+      await fs.promises.copyFile(trace, file);
+      const previous = this._baselines.get(testItem.id);
+      if (previous)
+        await fs.promises.rm(previous, { force: true });
+      this._baselines.set(testItem.id, file);
+    } catch (e) {
+      void this._vscode.window.showErrorMessage(this._vscode.l10n.t('Unable to keep the trace: {0}', (e as Error).message));
+      return;
+    }
+    void this._vscode.window.showInformationMessage(this._vscode.l10n.t('The trace of "{0}" is its comparison baseline until the window is reloaded.', testItem.label));
+  }
+
+  override dispose() {
+    this._panel?.dispose();
+    if (this._tracesDir)
+      fs.rmSync(this._tracesDir, { recursive: true, force: true });
+    super.dispose();
+  }
+
+  /**
+   * Compares `currentTrace` against the baseline trace of `testItem`, asks for
+   * two trace files when there is nothing to compare against.
+   */
+  async compare(testItem?: vscodeTypes.TestItem, currentTrace?: string) {
+    const baselineTrace = testItem ? this._baselines.get(testItem.id) : undefined;
+    if (baselineTrace && currentTrace?.endsWith('.zip') && fs.existsSync(currentTrace)) {
+      await this._show(baselineTrace, currentTrace);
+      return;
+    }
+    const uris = await this._vscode.window.showOpenDialog({
+      canSelectMany: true,
+      filters: { [this._vscode.l10n.t('Trace')]: ['zip'] },
+      title: this._vscode.l10n.t('Select the baseline and the current trace'),
+    });
+    if (!uris)
+      return;
+    if (uris.length !== 2) {
+      void this._vscode.window.showErrorMessage(this._vscode.l10n.t('Select exactly two traces to compare.'));
+      return;
+    }
+    await this._show(uriToPath(uris[0]), uriToPath(uris[1]));
+  }
+
+  private async _show(baselineFile: string, currentFile: string) {
+    let baseline: TraceModel;
+    let current: TraceModel;
+    try {
+      [baseline, current] = await Promise.all([loadTrace(baselineFile), loadTrace(currentFile)]);
+    } catch (e) {
+      void this._vscode.window.showErrorMessage(this._vscode.l10n.t('Unable to load trace: {0}', (e as Error).message));
+      return;
+    }
+    if (!this._panel) {
+      this._panel = this._vscode.window.createWebviewPanel('playwright.traceComparison', this._vscode.l10n.t('Trace Comparison'), this._vscode.ViewColumn.Active, {
+        localResourceRoots: [this._vscode.Uri.joinPath(this._extensionUri, 'media')],
+      });
+      this._panel.onDidDispose(() => this._panel = undefined);
+    } else {
+      this._panel.reveal();
+    }
+    this._panel.webview.html = htmlForWebview(this._vscode, this._extensionUri, this._panel.webview, baselineFile, currentFile, compareTraces(baseline, current));
+  }
+}
+
+export function compareTraces(baseline: TraceModel, current: TraceModel): TraceDiff {
+  return {
+    actions: alignActions(withDepth(baseline.actions), withDepth(current.actions)),
+    network: compareNetwork(baseline.network, current.network),
+    consoleErrors: compareConsoleErrors(baseline.console, current.console),
+  };
+}
+
+function withDepth(actions: TraceAction[]): { action: TraceAction, depth: number }[] {
+  return flattenActions(actions).map(action => {
+    let depth = 0;
+    for (let parent = action.parent; parent; parent = parent.parent)
+      ++depth;
+    return { action, depth };
+  });
+}
+
+function actionKey(action: TraceAction): string {
+  return `${action.title}@${action.location?.line}`;
+}
+
+// Longest common subsequence of the action titles and lines, the rest are additions and removals.
+function alignActions(baseline: { action: TraceAction, depth: number }[], current: { action: TraceAction, depth: number }[]): ActionRow[] {
+  const lengths: number[][] = [];
+  for (let i = baseline.length; i >= 0; --i) {
+    lengths[i] = [];
+    for (let j = current.length; j >= 0; --j) {
+      if (i === baseline.length || j === current.length)
+        lengths[i][j] = 0;
+      else if (actionKey(baseline[i].action) === actionKey(current[j].action))
+        lengths[i][j] = lengths[i + 1][j + 1] + 1;
+      else
+        lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const rows: ActionRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < baseline.length || j < current.length) {
+    if (i < baseline.length && j < current.length && actionKey(baseline[i].action) === actionKey(current[j].action)) {
+      const kind = baseline[i].action.error === current[j].action.error ? 'same' : 'changed';
+      rows.push({ kind, depth: current[j].depth, baseline: baseline[i].action, current: current[j].action });
+      ++i;
+      ++j;
+    } else if (j === current.length || (i < baseline.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      rows.push({ kind: 'removed', depth: baseline[i].depth, baseline: baseline[i].action });
+      ++i;
+    } else {
+      rows.push({ kind: 'added', depth: current[j].depth, current: current[j].action });
+      ++j;
+    }
+  }
+  return rows;
+}
+
+// Requests are matched by method and url in the order they were issued, only differences are kept.
+function compareNetwork(baseline: TraceNetworkRequest[], current: TraceNetworkRequest[]): NetworkRow[] {
+  const key = (request: TraceNetworkRequest) => `${request.method} ${request.url}`;
+  const unmatched = new Map<string, TraceNetworkRequest[]>();
+  for (const request of baseline) {
+    const requests = unmatched.get(key(request)) || [];
+    requests.push(request);
+    unmatched.set(key(request), requests);
+  }
+  const rows: NetworkRow[] = [];
+  for (const request of current) {
+    const match = unmatched.get(key(request))?.shift();
+    if (!match || match.status !== request.status)
+      rows.push({ request: key(request), baseline: match, current: request });
+  }
+  for (const [request, requests] of unmatched) {
+    for (const match of requests)
+      rows.push({ request, baseline: match });
+  }
+  return rows;
+}
+
+function compareConsoleErrors(baseline: TraceConsoleMessage[], current: TraceConsoleMessage[]) {
+  const baselineErrors = baseline.filter(isConsoleError);
+  const currentErrors = current.filter(isConsoleError);
+  const baselineTexts = new Set(baselineErrors.map(message => message.text));
+  const currentTexts = new Set(currentErrors.map(message => message.text));
+  return {
+    baseline: baselineErrors.filter(message => !currentTexts.has(message.text)),
+    current: currentErrors.filter(message => !baselineTexts.has(message.text)),
+  };
+}
+
+function duration(action: TraceAction | undefined): number | undefined {
+  return action?.endTime !== undefined ? Math.round(action.endTime - action.startTime) : undefined;
+}
+
+function renderAction(action: TraceAction | undefined): string {
+  if (!action)
+    return '';
+  const time = duration(action);
+  const error = action.error ? `<div class="trace-comparison-error">${escapeHTML(action.error.split('\n')[0])}</div>` : '';
+  return `${action.error ? '✘' : '✔'} ${escapeHTML(action.title)}${time !== undefined ? ` <span class="trace-comparison-time">${time}ms</span>` : ''}${error}`;
+}
+
+function renderDelta(row: ActionRow): string {
+  const baseline = duration(row.baseline);
+  const current = duration(row.current);
+  if (baseline === undefined || current === undefined)
+    return '';
+  const delta = current - baseline;
+  return delta > 0 ? `+${delta}ms` : `${delta}ms`;
+}
+
+function renderStatus(vscode: vscodeTypes.VSCode, request: TraceNetworkRequest | undefined): string {
+  if (!request)
+    return '—';
+  return request.status ? `${request.status} ${escapeHTML(request.statusText)}` : vscode.l10n.t('failed');
+}
+
+function htmlForWebview(vscode: vscodeTypes.VSCode, extensionUri: vscodeTypes.Uri, webview: vscodeTypes.Webview, baselineFile: string, currentFile: string, diff: TraceDiff) {
+  const style = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'media', 'common.css'));
+  const actionRows = diff.actions.map(row => html`
+    <tr class="row-${row.kind}">
+      <td style="padding-left: ${row.depth * 16 + 4}px">${renderAction(row.baseline)}</td>
+      <td style="padding-left: ${row.depth * 16 + 4}px">${renderAction(row.current)}</td>
+      <td class="trace-comparison-time">${renderDelta(row)}</td>
+    </tr>
+  `).join('');
+  const networkRows = diff.network.map(row => html`
+    <tr class="row-${!row.baseline ? 'added' : !row.current ? 'removed' : 'changed'}">
+      <td>${escapeHTML(row.request)}</td>
+      <td>${renderStatus(vscode, row.baseline)}</td>
+      <td>${renderStatus(vscode, row.current)}</td>
+    </tr>
+  `).join('');
+  const consoleRows = [
+    ...diff.consoleErrors.baseline.map(message => html`<tr class="row-removed"><td>${escapeHTML(message.text)}</td><td></td></tr>`),
+    ...diff.consoleErrors.current.map(message => html`<tr class="row-added"><td></td><td>${escapeHTML(message.text)}</td></tr>`),
+  ].join('');
+  const noDifferences = `<p>${vscode.l10n.t('No differences.')}</p>`;
+
+  return html`
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline';">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <link href="${style}" rel="stylesheet">
+      <title>Playwright</title>
+    </head>
+    <body class="trace-comparison">
+      <h2>${vscode.l10n.t('Actions')}</h2>
+      <table id="actions">
+        <tr><th title="${escapeHTML(baselineFile)}">${vscode.l10n.t('Baseline')}</th><th title="${escapeHTML(currentFile)}">${vscode.l10n.t('Current')}</th><th>${vscode.l10n.t('Δ Time')}</th></tr>
+        ${actionRows}
+      </table>
+      <h2>${vscode.l10n.t('Network')}</h2>
+      ${networkRows ? html`
+        <table id="network">
+          <tr><th>${vscode.l10n.t('Request')}</th><th>${vscode.l10n.t('Baseline')}</th><th>${vscode.l10n.t('Current')}</th></tr>
+          ${networkRows}
+        </table>
+      ` : noDifferences}
+      <h2>${vscode.l10n.t('Console errors')}</h2>
+      ${consoleRows ? html`
+        <table id="console">
+          <tr><th>${vscode.l10n.t('Baseline')}</th><th>${vscode.l10n.t('Current')}</th></tr>
+          ${consoleRows}
+        </table>
+      ` : noDifferences}
+    </body>
+    </html>
+  `;
+}
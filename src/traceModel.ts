@@ -0,0 +1,256 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import type * as har from './upstream/har';
+import * as reporterTypes from './upstream/reporter';
+import type * as traceTypes from './upstream/trace';
+import { readZipEntries, stripAnsi } from './utils';
+
+export type TraceAction = {
+  callId: string;
+  title: string;
+  startTime: number;
+  endTime?: number;
+  error?: string;
+  location?: reporterTypes.Location;
+  // Screencast frames closest to the start and the end of the action, read with `readTraceResources`.
+  beforeFrame?: string;
+  afterFrame?: string;
+  parent?: TraceAction;
+  children: TraceAction[];
+};
+
+export type TraceNetworkRequest = {
+  method: string;
+  url: string;
+  // 0 when the request failed or never got a response.
+  status: number;
+  statusText: string;
+  startTime: number;
+  duration: number;
+  // Decoded size of the response body in bytes.
+  size: number;
+  mimeType?: string;
+  requestHeaders: { name: string, value: string }[];
+  responseHeaders: { name: string, value: string }[];
+  postData?: string;
+  // Read with `readTraceResources`.
+  responseBody?: string;
+};
+
+export type TraceConsoleMessage = {
+  // Console message type, `pageerror` for uncaught page errors.
+  type: string;
+  text: string;
+  time: number;
+  // Milliseconds since epoch, when the trace records the wall clock.
+  wallTime?: number;
+  location?: { url: string, lineNumber: number, columnNumber: number };
+};
+
+export type TraceModel = {
+  file: string;
+  actions: TraceAction[];
+  network: TraceNetworkRequest[];
+  console: TraceConsoleMessage[];
+};
+
+type ScreencastFrame = {
+  sha1: string;
+  timestamp: number;
+};
+
+// Older traces name the action by its api name.
+type BeforeActionTraceEvent = traceTypes.BeforeActionTraceEvent & { apiName?: string };
+
+// Resources are not kept in the model, only the ones shown recently are cached.
+const kMaxCachedTraces = 5;
+const traceCache = new Map<string, { mtimeMs: number, trace: Promise<TraceModel> }>();
+
+/**
+ * Reads the actions of a trace recorded by Playwright Test. Only actions that originate
+ * in user code are kept, hooks and fixtures are skipped.
+ * Views showing the same trace share the model, it is read again once the file changes.
+ */
+export async function loadTrace(file: string): Promise<TraceModel> {
+  const { mtimeMs } = await fs.promises.stat(file);
+  let cached = traceCache.get(file);
+  if (!cached || cached.mtimeMs !== mtimeMs) {
+    const entry = { mtimeMs, trace: parseTrace(file) };
+    entry.trace.catch(() => {
+      if (traceCache.get(file) === entry)
+        traceCache.delete(file);
+    });
+    cached = entry;
+  }
+  // Map keeps insertion order, move the trace to the end and evict from the start.
+  traceCache.delete(file);
+  traceCache.set(file, cached);
+  for (const key of traceCache.keys()) {
+    if (traceCache.size <= kMaxCachedTraces)
+      break;
+    traceCache.delete(key);
+  }
+  return cached.trace;
+}
+
+/**
+ * Reads the console messages of a trace. Unless the trace is shown already, only its
+ * events are read and the model is neither built nor cached.
+ */
+export async function loadConsoleMessages(file: string): Promise<TraceConsoleMessage[]> {
+  const { mtimeMs } = await fs.promises.stat(file);
+  const cached = traceCache.get(file);
+  if (cached?.mtimeMs === mtimeMs)
+    return (await cached.trace).console;
+  return consoleMessages(await readTraceEvents(file, ['.trace']));
+}
+
+async function readTraceEvents(file: string, extensions: string[]): Promise<traceTypes.TraceEvent[]> {
+  // Screenshots and response bodies make up most of a trace, they are read on demand.
+  const entries = await readZipEntries(file, name => extensions.some(extension => name.endsWith(extension)));
+  const events: traceTypes.TraceEvent[] = [];
+  for (const buffer of entries.values()) {
+    for (const line of buffer.toString('utf8').split('\n')) {
+      if (line.trim())
+        events.push(JSON.parse(line));
+    }
+  }
+  return events;
+}
+
+function consoleMessages(events: traceTypes.TraceEvent[]): TraceConsoleMessage[] {
+  const messages: TraceConsoleMessage[] = [];
+  let wallTimeOffset: number | undefined;
+  for (const event of events) {
+    if (event.type === 'context-options') {
+      if (wallTimeOffset === undefined || event.origin === 'testRunner')
+        wallTimeOffset = event.wallTime - event.monotonicTime;
+    } else if (event.type === 'console') {
+      messages.push({ type: event.messageType, text: event.text, time: event.time, location: event.location });
+    } else if (event.type === 'event' && event.method === 'pageError') {
+      const error = event.params.error;
+      messages.push({ type: 'pageerror', text: error.error?.stack || error.error?.message || String(error.value), time: event.time });
+    }
+  }
+  messages.sort((a, b) => a.time - b.time);
+  if (wallTimeOffset !== undefined) {
+    for (const message of messages)
+      message.wallTime = message.time + wallTimeOffset;
+  }
+  return messages;
+}
+
+async function parseTrace(file: string): Promise<TraceModel> {
+  const events = await readTraceEvents(file, ['.trace', '.network']);
+  const befores = new Map<string, BeforeActionTraceEvent>();
+  const afters = new Map<string, traceTypes.AfterActionTraceEvent>();
+  const frames: ScreencastFrame[] = [];
+  const network: TraceNetworkRequest[] = [];
+  for (const event of events) {
+    if (event.type === 'before') {
+      // Library calls are mirrored by the test runner step with the same id.
+      if (event.stepId && event.stepId !== event.callId)
+        continue;
+      befores.set(event.callId, event);
+    } else if (event.type === 'after') {
+      afters.set(event.callId, event);
+    } else if (event.type === 'screencast-frame') {
+      frames.push({ sha1: event.sha1, timestamp: event.timestamp });
+    } else if (event.type === 'resource-snapshot') {
+      network.push(networkRequest(event.snapshot));
+    }
+  }
+  network.sort((a, b) => a.startTime - b.startTime);
+  frames.sort((a, b) => a.timestamp - b.timestamp);
+
+  const actions = new Map<string, TraceAction>();
+  for (const [callId, before] of befores) {
+    const frame = before.stack?.[0];
+    if (!frame || before.method === 'hook' || before.method === 'fixture')
+      continue;
+    const after = afters.get(callId);
+    const error = after?.error?.message;
+    actions.set(callId, {
+      callId,
+      title: before.title || before.apiName || `${before.class}.${before.method}`,
+      startTime: before.startTime,
+      endTime: after?.endTime,
+      error: error ? stripAnsi(error) : undefined,
+      location: { file: frame.file, line: frame.line, column: frame.column },
+      beforeFrame: frameAt(frames, before.startTime),
+      afterFrame: after?.endTime !== undefined ? frameAt(frames, after.endTime) : undefined,
+      children: [],
+    });
+  }
+
+  const roots: TraceAction[] = [];
+  for (const action of actions.values()) {
+    // Attach to the closest ancestor that is kept, hooks and fixtures are skipped.
+    let parentId = befores.get(action.callId)!.parentId;
+    while (parentId && !actions.has(parentId))
+      parentId = befores.get(parentId)?.parentId;
+    action.parent = parentId ? actions.get(parentId) : undefined;
+    if (action.parent)
+      action.parent.children.push(action);
+    else
+      roots.push(action);
+  }
+  return { file, actions: roots, network, console: consoleMessages(events) };
+}
+
+/**
+ * Reads the screencast frames and response bodies with the given sha1s from the trace.
+ */
+export async function readTraceResources(trace: TraceModel, sha1s: string[]): Promise<Map<string, Buffer>> {
+  const names = new Set(sha1s.map(sha1 => 'resources/' + sha1));
+  const entries = await readZipEntries(trace.file, name => names.has(name));
+  return new Map([...entries].map(([name, buffer]) => [name.substring('resources/'.length), buffer]));
+}
+
+function networkRequest(entry: har.Entry): TraceNetworkRequest {
+  const response = entry.response;
+  return {
+    method: entry.request.method,
+    url: entry.request.url,
+    status: response.status > 0 ? response.status : 0,
+    statusText: response.statusText || '',
+    startTime: entry._monotonicTime ?? new Date(entry.startedDateTime).getTime(),
+    duration: Math.max(entry.time || 0, 0),
+    size: Math.max(response.content?.size || 0, 0),
+    mimeType: response.content?.mimeType,
+    requestHeaders: entry.request.headers || [],
+    responseHeaders: response.headers || [],
+    postData: entry.request.postData?.text,
+    responseBody: response.content?._sha1,
+  };
+}
+
+export function flattenActions(actions: TraceAction[]): TraceAction[] {
+  return actions.flatMap(action => [action, ...flattenActions(action.children)]);
+}
+
+// Last frame painted at or before `time`.
+function frameAt(frames: ScreencastFrame[], time: number): string | undefined {
+  let result: string | undefined;
+  for (const frame of frames) {
+    if (frame.timestamp > time)
+      break;
+    result = frame.sha1;
+  }
+  return result;
+}
@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Serves the trace viewer without opening it, the extension embeds it into a webview panel.
+// Trace URLs to load are read from stdin, one per line.
+
+import path from 'path';
+
+async function main() {
+  const [cli] = process.argv.slice(2);
+  // playwright-core is a dependency of playwright, it is not reachable from the cli with strict node_modules layouts.
+  let dir = path.dirname(cli);
+  for (const name of ['playwright', 'playwright-core']) {
+    try {
+      dir = path.dirname(require.resolve(`${name}/package.json`, { paths: [dir] }));
+    } catch {
+    }
+  }
+  const { startTraceViewerServer, installRootRedirect } = require(path.join(dir, 'lib', 'server'));
+  const server = await startTraceViewerServer({ isServer: true, host: 'localhost', port: 0 });
+  await installRootRedirect(server, undefined, { isServer: true });
+  console.log('Listening on ' + server.urlPrefix('precise'));
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
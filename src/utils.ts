@@ -19,7 +19,9 @@ import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import readline from 'readline';
+import util from 'util';
 import which from 'which';
+import zlib from 'zlib';
 import * as vscodeTypes from './vscodeTypes';
 
 export function createGuid(): string {
@@ -61,6 +63,24 @@ export async function resolveSourceMap(file: string, fileToSources: Map<string,
   if (cached)
     return cached;
 
+  const sourceMap = await readSourceMap(file);
+  if (sourceMap) {
+    for (const source of sourceMap.sources)
+      sourceToFile.set(source, file);
+    fileToSources.set(file, sourceMap.sources);
+    return sourceMap.sources;
+  }
+  fileToSources.set(file, [file]);
+  return [file];
+}
+
+export type SourceMap = {
+  // Absolute paths.
+  sources: string[];
+  mappings: string;
+};
+
+export async function readSourceMap(file: string): Promise<SourceMap | undefined> {
   const rl = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
 
   let lastLine: string | undefined;
@@ -69,23 +89,34 @@ export async function resolveSourceMap(file: string, fileToSources: Map<string,
   });
   await new Promise(f => rl.on('close', f));
 
-  if (lastLine?.startsWith('//# sourceMappingURL=')) {
-    const sourceMappingFile = path.resolve(path.dirname(file), lastLine.substring('//# sourceMappingURL='.length));
-    try {
-      const sourceMapping = await fs.promises.readFile(sourceMappingFile, 'utf-8');
-      const sources = JSON.parse(sourceMapping).sources;
-      const sourcePaths = sources.map((s: string) => {
-        const source = path.resolve(path.dirname(sourceMappingFile), s);
-        sourceToFile.set(source, file);
-        return source;
-      });
-      fileToSources.set(file, sourcePaths);
-      return sourcePaths;
-    } catch (e) {
+  return await loadSourceMap(lastLine, path.dirname(file));
+}
+
+/**
+ * Reads the source map referenced by the `//# sourceMappingURL=` comment of a script,
+ * either inlined as a data URL or stored next to the script in `dir`.
+ */
+export async function loadSourceMap(comment: string | undefined, dir: string): Promise<SourceMap | undefined> {
+  if (!comment?.startsWith('//# sourceMappingURL='))
+    return;
+  const url = comment.substring('//# sourceMappingURL='.length).trim();
+  try {
+    let sourceMapping: any;
+    let sourceMappingDir = dir;
+    const dataUrl = url.match(/^data:[^,]*?(;base64)?,(.*)$/);
+    if (dataUrl) {
+      sourceMapping = JSON.parse(dataUrl[1] ? Buffer.from(dataUrl[2], 'base64').toString('utf8') : decodeURIComponent(dataUrl[2]));
+    } else {
+      const sourceMappingFile = path.resolve(dir, url);
+      sourceMappingDir = path.dirname(sourceMappingFile);
+      sourceMapping = JSON.parse(await fs.promises.readFile(sourceMappingFile, 'utf-8'));
     }
+    return {
+      sources: sourceMapping.sources.map((s: string) => path.resolve(sourceMappingDir, s)),
+      mappings: sourceMapping.mappings,
+    };
+  } catch (e) {
   }
-  fileToSources.set(file, [file]);
-  return [file];
 }
 
 export class NodeJSNotFoundError extends Error {}
@@ -237,3 +268,50 @@ export function normalizePath(fsPath: string): string {
     return fsPath[0].toUpperCase() + fsPath.substring(1);
   return fsPath;
 }
+
+const inflateRaw = util.promisify(zlib.inflateRaw);
+
+// Only the central directory and the entries passing the filter are read from the file.
+export async function readZipEntries(file: string, filter: (name: string) => boolean = () => true): Promise<Map<string, Buffer>> {
+  const entries = new Map<string, Buffer>();
+  const handle = await fs.promises.open(file, 'r');
+  const read = async (position: number, length: number) => {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  };
+  try {
+    // End of central directory record is 22 bytes followed by a comment of up to 64k.
+    const { size } = await handle.stat();
+    const tailStart = Math.max(0, size - 22 - 0xffff);
+    const tail = await read(tailStart, size - tailStart);
+    let endOfCentralDirectory = tail.length - 22;
+    while (endOfCentralDirectory >= 0 && tail.readUInt32LE(endOfCentralDirectory) !== 0x06054b50)
+      --endOfCentralDirectory;
+    if (endOfCentralDirectory < 0)
+      throw new Error('Not a zip file');
+
+    const entryCount = tail.readUInt16LE(endOfCentralDirectory + 10);
+    const directory = await read(tail.readUInt32LE(endOfCentralDirectory + 16), tail.readUInt32LE(endOfCentralDirectory + 12));
+    let offset = 0;
+    for (let i = 0; i < entryCount; ++i) {
+      const method = directory.readUInt16LE(offset + 10);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const localHeader = directory.readUInt32LE(offset + 42);
+      const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength);
+      offset += 46 + nameLength + extraLength + commentLength;
+      if (!filter(name))
+        continue;
+
+      const header = await read(localHeader, 30);
+      const data = await read(localHeader + 30 + header.readUInt16LE(26) + header.readUInt16LE(28), compressedSize);
+      entries.set(name, method === 8 ? await inflateRaw(data) : data);
+    }
+  } finally {
+    await handle.close();
+  }
+  return entries;
+}
@@ -17,7 +17,10 @@
 export type {
   CancellationToken,
   CancellationTokenSource,
+  CodeAction,
+  CodeActionProvider,
   ColorThemeKind,
+  Command,
   DebugSession,
   DecorationOptions,
   Diagnostic,
@@ -27,12 +30,14 @@ export type {
   EventEmitter,
   ExtensionContext,
   FileSystemWatcher,
+  Hover,
   InputBox,
   Location,
   Position,
   Progress,
   QuickPickItem,
   Range,
+  Selection,
   TestItem,
   TestItemCollection,
   TestMessage,
@@ -42,7 +47,9 @@ export type {
   TestRunRequest,
   TextEditor,
   TextEditorDecorationType,
+  TextEditorSelectionChangeEvent,
   TextDocument,
+  TextDocumentContentProvider,
   TestController,
   TestTag,
   TreeDataProvider,
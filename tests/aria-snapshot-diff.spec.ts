@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { expect, test } from './utils';
+
+test('should show aria snapshot diff and accept received snapshot', async ({ activate }, testInfo) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should match', async ({ page }) => {
+        await page.setContent('<h1>Title</h1><button>Submit</button>');
+        await expect(page.locator('body')).toMatchAriaSnapshot(\`
+          - heading "Heading"
+          - button "Submit"
+        \`, { timeout: 1000 });
+      });
+    `,
+  });
+
+  await testController.run();
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ❌ should match [2:0]
+  `);
+
+  const document = await vscode.workspace.openTextDocument(testInfo.outputPath('tests/test.spec.ts'));
+  const [provider] = vscode.codeActionsProviders;
+  const actions = provider.provideCodeActions(document, new vscode.Range(4, 0, 4, 0));
+  expect(actions.map((action: { title: string }) => action.title)).toEqual(['Show aria snapshot diff', 'Accept received aria snapshot']);
+
+  await vscode.commands.executeCommand(actions[0].command.command, ...actions[0].command.arguments);
+  expect(vscode.commandLog).toContain('vscode.diff');
+  const contentProvider = vscode.textDocumentContentProviders.get('pw-aria-snapshot');
+  expect(contentProvider.provideTextDocumentContent(vscode.Uri.parse('pw-aria-snapshot:/1/expected.yml'))).toBe([
+    '- heading "Heading"',
+    '- button "Submit"',
+  ].join('\n'));
+  expect(contentProvider.provideTextDocumentContent(vscode.Uri.parse('pw-aria-snapshot:/1/received.yml'))).toBe([
+    '- heading "Title" [level=1]',
+    '- button "Submit"',
+  ].join('\n'));
+
+  await vscode.workspace.applyEdit(actions[1].edit);
+  await vscode.commands.executeCommand(actions[1].command.command, ...actions[1].command.arguments);
+  expect(provider.provideCodeActions(document, new vscode.Range(4, 0, 4, 0))).toEqual([]);
+  expect(await fs.promises.readFile(testInfo.outputPath('tests/test.spec.ts'), 'utf8')).toContain([
+    `        await expect(page.locator('body')).toMatchAriaSnapshot(\``,
+    `          - heading "Title" [level=1]`,
+    `          - button "Submit"`,
+    `        \`, { timeout: 1000 });`,
+  ].join('\n'));
+
+  await testController.run();
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ✅ should match [2:0]
+  `);
+});
@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, selectTestItem, test } from './utils';
+
+test('should show attachments of the selected test', async ({ activate }, testInfo) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'data.json': `{ "hello": "world" }`,
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      import path from 'path';
+      test('with attachments', async ({}, testInfo) => {
+        await testInfo.attach('note', { body: 'hello from test', contentType: 'text/plain' });
+        await testInfo.attach('data', { path: path.join(__dirname, '..', 'data.json'), contentType: 'application/json' });
+      });
+      test('without attachments', async () => {});
+    `,
+  });
+
+  const webView = vscode.webViews.get('pw.extension.attachmentsView')!;
+  await expect(webView.getByText('Select a test in the Testing view to see its attachments.')).toBeVisible();
+
+  await testController.run();
+  await testController.expandTestItems(/test.spec/);
+  selectTestItem(testController.findTestItems(/with attachments/)[0]);
+
+  const attachments = webView.getByRole('listitem');
+  await expect(attachments).toHaveCount(2);
+  await expect(attachments.nth(0)).toContainText('note');
+  await expect(attachments.nth(0).locator('pre')).toHaveText('hello from test');
+  await expect(attachments.nth(0).getByRole('button', { name: 'Copy path' })).toBeHidden();
+  await expect(attachments.nth(1).locator('pre')).toHaveText(`{ "hello": "world" }`);
+
+  await attachments.nth(1).getByRole('button', { name: 'Copy path' }).click();
+  await expect.poll(() => vscode.env.clipboard.readText()).toContain(testInfo.outputPath('test-results'));
+
+  selectTestItem(testController.findTestItems(/without attachments/)[0]);
+  await expect(webView.getByText('The last run of this test has no attachments.')).toBeVisible();
+  await expect(attachments).toHaveCount(0);
+});
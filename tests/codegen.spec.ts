@@ -152,3 +152,40 @@ test('Record at Cursor should respect custom testId', async ({ activate, showBro
 
   vscode.lastWithProgressToken!.cancel();
 });
+
+test('should record with network capture', async ({ activate, showBrowser }, testInfo) => {
+  test.skip(!showBrowser);
+  test.slow();
+
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = {}`,
+  });
+
+  const webView = vscode.webViews.get('pw.extension.settingsView')!;
+  await webView.getByText('Record with network capture').click();
+  await expect.poll(() => vscode.lastWithProgressData, { timeout: 0 }).toEqual({ message: 'recording…' });
+  expect(vscode.window.activeTextEditor.document.text).toBe(`import { test, expect } from '@playwright/test';
+import path from 'path';
+
+test('test', async ({ page }) => {
+  await page.routeFromHAR(path.join(path.dirname(test.info().file), 'test-1.har'), { update: true, updateContent: 'embed' });
+  // Recording...
+});`);
+
+  const browser = await connectToSharedBrowser(vscode);
+  const page = await waitForPage(browser);
+  await page.locator('body').click();
+  await expect.poll(() => vscode.window.activeTextEditor.edits.length).toBe(1);
+  vscode.lastWithProgressToken!.cancel();
+
+  await expect.poll(() => fs.existsSync(testInfo.outputPath('test-1.har'))).toBe(true);
+  const har = JSON.parse(fs.readFileSync(testInfo.outputPath('test-1.har'), 'utf-8'));
+  expect(har.log.entries).toEqual(expect.any(Array));
+  await expect.poll(() => fs.readFileSync(testInfo.outputPath('test-1.spec.ts'), 'utf-8')).toBe(`import { test, expect } from '@playwright/test';
+import path from 'path';
+
+test('test', async ({ page }) => {
+  await page.routeFromHAR(path.join(path.dirname(test.info().file), 'test-1.har'), { update: false, updateContent: 'embed' });
+  await page.locator('body').click();
+});`);
+});
@@ -0,0 +1,50 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, selectTestItem, test } from './utils';
+
+test('should show console messages and report browser errors on failure', async ({ vscode, activate }) => {
+  const { testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests', use: { trace: 'on' } }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should fail', async ({ page }) => {
+        await page.setContent('<script>console.log("hello"); console.error("app failed"); setTimeout(() => { throw new TypeError("boom") }, 0)</script>');
+        await page.waitForTimeout(100);
+        expect(1).toBe(2);
+      });
+    `,
+  });
+
+  const testRun = await testController.run();
+  const log = testRun.renderLog({ messages: true });
+  expect(log).toContain('expect(received).toBe(expected)');
+  expect(log).toContain('Browser console error: app failed');
+  expect(log).toContain('Uncaught page error: TypeError: boom');
+  expect(log).not.toContain('hello');
+
+  await testController.expandTestItems(/test.spec/);
+  selectTestItem(testController.findTestItems(/should fail/)[0]);
+  const provider = vscode.treeDataProviders.get('pw.extension.consoleLogView');
+  await expect.poll(() => provider.getChildren().map((message: any) => {
+    const item = provider.getTreeItem(message);
+    return `${item.iconPath.id} ${item.label}`;
+  })).toEqual([
+    'info hello',
+    'error app failed',
+    'bug TypeError: boom',
+  ]);
+});
@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from './utils';
+
+test('should report coverage of page scripts', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'app/index.html': `<script src="app.js"></script>`,
+    'app/app.js': [
+      'function covered() {',
+      '  return 1;',
+      '}',
+      'function uncovered() {',
+      '  return 2;',
+      '}',
+      'covered();',
+    ].join('\n'),
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      import path from 'path';
+      import { pathToFileURL } from 'url';
+      test('should load app', async ({ page }) => {
+        await page.goto(pathToFileURL(path.join(__dirname, '..', 'app', 'index.html')).toString());
+      });
+    `,
+  });
+
+  const profile = testController.runProfiles.find(p => p.label === 'Run with coverage')!;
+  expect(profile.kind).toBe(vscode.TestRunProfileKind.Coverage);
+  const testRun = await profile.run();
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ✅ should load app [4:0]
+  `);
+
+  const fileCoverage = testRun.coverage.find(c => c.uri.toString().endsWith('app.js'))!;
+  expect(fileCoverage.statementCoverage).toEqual({ covered: 4, total: 7 });
+  const details = await profile.loadDetailedCoverage!(testRun, fileCoverage);
+  expect(details.map(d => [d.location.line, d.executed])).toEqual([
+    [0, 1],
+    [1, 1],
+    [2, 1],
+    [3, 0],
+    [4, 0],
+    [5, 0],
+    [6, 1],
+  ]);
+});
+
+test('should map scripts served over http onto workspace files', async ({ activate }) => {
+  const { testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'app/app.js': [
+      'function covered() {',
+      '  return 1;',
+      '}',
+      'covered();',
+    ].join('\n'),
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      import fs from 'fs';
+      import path from 'path';
+      test('should load app', async ({ page }) => {
+        await page.route('http://localhost/**', route => route.fulfill({
+          contentType: route.request().url().endsWith('.js') ? 'text/javascript' : 'text/html',
+          body: route.request().url().endsWith('.js') ? fs.readFileSync(path.join(__dirname, '..', 'app', 'app.js'), 'utf8') : '<script src="/static/app/app.js"></script>',
+        }));
+        await page.goto('http://localhost/index.html');
+      });
+    `,
+  });
+
+  const profile = testController.runProfiles.find(p => p.label === 'Run with coverage')!;
+  const testRun = await profile.run();
+  const fileCoverage = testRun.coverage.find(c => c.uri.toString().endsWith('app/app.js'))!;
+  expect(fileCoverage.statementCoverage).toEqual({ covered: 4, total: 4 });
+});
+
+test('should map coverage through inline source maps', async ({ activate }) => {
+  const sourceMap = { version: 3, sources: ['app.ts'], mappings: 'AAAA;AACA;AACA' };
+  const { testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'app/index.html': `<script src="app.js"></script>`,
+    'app/app.ts': [
+      'const value: number = 1;',
+      'function uncovered() {',
+      '}',
+    ].join('\n'),
+    'app/app.js': [
+      'const value = 1;',
+      'function uncovered() {',
+      '}',
+      `//# sourceMappingURL=data:application/json;base64,${Buffer.from(JSON.stringify(sourceMap)).toString('base64')}`,
+    ].join('\n'),
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      import path from 'path';
+      import { pathToFileURL } from 'url';
+      test('should load app', async ({ page }) => {
+        await page.goto(pathToFileURL(path.join(__dirname, '..', 'app', 'index.html')).toString());
+      });
+    `,
+  });
+
+  const profile = testController.runProfiles.find(p => p.label === 'Run with coverage')!;
+  const testRun = await profile.run();
+  expect(testRun.coverage.map(c => c.uri.path.split('/').pop())).toEqual(['app.ts']);
+});
@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { expect, test } from './utils';
+
+test('should export the last run as HTML and JSON', async ({ activate }, testInfo) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should pass', async () => {
+        console.log('hello from test');
+      });
+      test('should fail', async () => {
+        await test.step('failing step', async () => {
+          expect(1).toBe(2);
+        });
+      });
+    `,
+  });
+
+  await testController.run();
+  vscode.window.mockSaveDialog = async () => vscode.Uri.file(testInfo.outputPath('report.html'));
+  await vscode.commands.executeCommand('pw.extension.command.exportRunReport');
+
+  const report = JSON.parse(await fs.promises.readFile(testInfo.outputPath('report.json'), 'utf8'));
+  expect(report.stats).toEqual(expect.objectContaining({ expected: 1, unexpected: 1, flaky: 0, skipped: 0 }));
+  expect(report.suites).toEqual([
+    expect.objectContaining({
+      title: 'test.spec.ts',
+      file: 'test.spec.ts',
+      specs: [
+        expect.objectContaining({ title: 'should pass', ok: true, line: 3 }),
+        expect.objectContaining({ title: 'should fail', ok: false, line: 6 }),
+      ],
+    }),
+  ]);
+  const [passing, failing] = report.suites[0].specs.map((spec: any) => spec.tests[0].results[0]);
+  expect(passing.stdout).toEqual([{ text: 'hello from test\n' }]);
+  expect(failing.steps).toEqual([expect.objectContaining({ title: 'failing step' })]);
+  expect(failing.errors[0].message).toContain('expect(received).toBe(expected)');
+
+  const html = await fs.promises.readFile(testInfo.outputPath('report.html'), 'utf8');
+  expect(html).toContain('1 passed');
+  expect(html).toContain('should&nbsp;fail');
+  expect(html).toContain(`<span style='color:#73c991;'>2</span>`);
+});
+
+test('should embed attachments into the exported HTML', async ({ activate }, testInfo) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      import fs from 'fs';
+      test('should attach', async ({}, testInfo) => {
+        const file = testInfo.outputPath('notes.txt');
+        fs.writeFileSync(file, 'attached notes');
+        await testInfo.attach('notes', { path: file, contentType: 'text/plain' });
+        await testInfo.attach('data', { path: file, contentType: 'application/octet-stream' });
+      });
+    `,
+  });
+
+  await testController.run();
+  vscode.window.mockSaveDialog = async () => vscode.Uri.file(testInfo.outputPath('report.html'));
+  await vscode.commands.executeCommand('pw.extension.command.exportRunReport');
+
+  const html = await fs.promises.readFile(testInfo.outputPath('report.html'), 'utf8');
+  expect(html).toContain('<pre>attached notes</pre>');
+  expect(html).toContain(`href="data:application/octet-stream;base64,${Buffer.from('attached notes').toString('base64')}"`);
+  expect(html).not.toContain('file://');
+});
+
+test('should warn when there is no run to export', async ({ activate }) => {
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+  });
+
+  await vscode.commands.executeCommand('pw.extension.command.exportRunReport');
+  expect(vscode.warnings).toEqual(['Run tests before exporting a report.']);
+});
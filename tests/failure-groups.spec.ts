@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TestRun } from './mock/vscode';
+import { expect, test } from './utils';
+
+function renderGroups(provider: any): string[] {
+  return provider.getChildren().flatMap((group: any) => {
+    const item = provider.getTreeItem(group);
+    return [`${item.label} (${item.description})`, ...provider.getChildren(group).map((child: any) => `  ${provider.getTreeItem(child).label}`)];
+  });
+}
+
+test('should group failures by error', async ({ vscode, activate }) => {
+  const { testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/helper.ts': `
+      export function login(port: number) {
+        throw new Error('Server is down on port ' + port);
+      }
+    `,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      import { login } from './helper';
+      test('first', async () => {
+        login(3000);
+      });
+      test('second', async () => {
+        login(3001);
+      });
+      test('third', async () => {
+        expect(1).toBe(2);
+      });
+      test('passing', async () => {});
+    `,
+  });
+
+  await testController.run();
+  const provider = vscode.treeDataProviders.get('pw.extension.failureGroupsView');
+  expect(renderGroups(provider)).toEqual([
+    'Error: Server is down on port 3000 (2 failed tests)',
+    '  first',
+    '  second',
+    'Error: expect(received).toBe(expected) // Object.is equality (1 failed tests)',
+    '  third',
+  ]);
+
+  const testRuns: TestRun[] = [];
+  testController.onDidCreateTestRun(run => testRuns.push(run));
+  await vscode.commands.executeCommand('pw.extension.command.rerunFailureGroup', provider.getChildren()[0]);
+  expect(testRuns).toHaveLength(1);
+  expect(testRuns[0].renderLog()).toBe(`
+    tests > test.spec.ts > first [3:0]
+      enqueued
+      started
+      failed
+    tests > test.spec.ts > second [6:0]
+      enqueued
+      started
+      failed
+  `);
+});
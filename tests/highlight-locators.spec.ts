@@ -15,6 +15,7 @@
  */
 
 import { chromium } from '@playwright/test';
+import { DebugSession } from './mock/vscode';
 import { expect, test } from './utils';
 
 test.beforeEach(({ showBrowser }) => {
@@ -112,3 +113,63 @@ test('should work', async ({ activate }) => {
   }
   await browser.close();
 });
+
+test('should highlight page object locators while debugging', async ({ activate }, testInfo) => {
+  const cdpPort = 9234 + test.info().workerIndex * 2 + 1;
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = {
+      use: {
+        launchOptions: {
+          args: ['--remote-debugging-port=${cdpPort}']
+        }
+      }
+    }`,
+    'pages.ts': `
+      export class LoginPage {
+        constructor(page) {
+          this.two = page.getByRole('button', { name: 'two' });
+        }
+      }
+    `,
+    'test.spec.ts': `
+      import { test } from '@playwright/test';
+      import { LoginPage } from './pages';
+      test('one', async ({ page }) => {
+        await page.setContent('<button>one</button><button>two</button>');
+        const loginPage = new LoginPage(page);
+        await loginPage.two.click(); // line 6
+      });
+    `,
+  });
+
+  await vscode.openEditors('test.spec.ts');
+  await testController.run(testController.findTestItems(/test.spec.ts/));
+  const browser = await chromium.connectOverCDP(`http://localhost:${cdpPort}`);
+  const page = browser.contexts()[0].pages()[0];
+  const boxTwo = await page.getByRole('button', { name: 'two' }).boundingBox();
+
+  // Paused in the test, the page object is only known to the debugger.
+  const evaluated: string[] = [];
+  const session = new DebugSession('session', 'pwa-node', 'Playwright Test', undefined, { type: 'pwa-node', name: 'Playwright Test', request: 'launch' });
+  session.customRequest = async (command: string, args?: any) => {
+    if (command === 'threads')
+      return { threads: [{ id: 1 }] };
+    if (command === 'stackTrace')
+      return { stackFrames: [{ id: 1, line: 7, column: 9, source: { path: testInfo.outputPath('test.spec.ts') } }] };
+    if (command === 'scopes')
+      return { scopes: [{ name: 'Local', variablesReference: 1 }] };
+    if (command === 'variables')
+      return { variables: [{ name: 'page', value: 'Page {}' }, { name: 'loginPage', value: 'LoginPage {}' }] };
+    if (command === 'evaluate') {
+      evaluated.push(Buffer.from(args.expression.match(/"(.*)"/)[1], 'base64').toString());
+      return { result: `'internal:role=button[name="two"i]'` };
+    }
+  };
+  vscode.debug.simulateDebugSession(session);
+
+  vscode.languages.emitHoverEvent('typescript', vscode.window.activeTextEditor.document, new vscode.Position(6, 25));
+  await expect(page.locator('x-pw-highlight')).toBeVisible();
+  expect(await page.locator('x-pw-highlight').boundingBox()).toEqual(boxTwo);
+  expect(evaluated).toEqual(['(loginPage.two)._selector']);
+  await browser.close();
+});
@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { enableProjects, expect, test } from './utils';
+
+const files = {
+  'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+  'tests/test.spec.ts': `
+    import { test, expect } from '@playwright/test';
+    test('should pass', async () => {});
+    test('should fail', async () => { expect(1).toBe(2); });
+  `,
+};
+
+// Stored (uncompressed) zip with the given entries.
+function createZip(entries: Record<string, string>): Buffer {
+  const localHeaders: Buffer[] = [];
+  const centralHeaders: Buffer[] = [];
+  let offset = 0;
+  for (const [name, text] of Object.entries(entries)) {
+    const nameBuffer = Buffer.from(name);
+    const data = Buffer.from(text);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    localHeaders.push(local, nameBuffer, data);
+    centralHeaders.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+  const centralDirectory = Buffer.concat(centralHeaders);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localHeaders, centralDirectory, end]);
+}
+
+function runPlaywright(cwd: string, reporter: string) {
+  spawnSync(process.execPath, [require.resolve('@playwright/test/cli'), 'test', `--reporter=${reporter}`], {
+    cwd,
+    env: { ...process.env, PLAYWRIGHT_JSON_OUTPUT_NAME: 'report.json' },
+  });
+}
+
+for (const [reporter, reportFile] of [['json', 'report.json'], ['blob', 'blob-report/report.zip']]) {
+  test(`should show results from a ${reporter} report`, async ({ activate }, testInfo) => {
+    const { vscode, testController } = await activate(files);
+    runPlaywright(testInfo.outputPath(), reporter);
+
+    vscode.window.mockOpenDialog = async () => [vscode.Uri.file(testInfo.outputPath(reportFile))];
+    const testRunPromise = new Promise<any>(f => testController.onDidCreateTestRun(f));
+    await vscode.commands.executeCommand('pw.extension.command.loadReport');
+    const testRun = await testRunPromise;
+
+    await expect(testController).toHaveTestTree(`
+      -   tests
+        -   test.spec.ts
+          - ❌ should fail [3:0]
+          - ✅ should pass [2:0]
+    `);
+    expect(testRun.renderLog({ messages: true })).toContain('Expected: 2');
+    expect(vscode.connectionLog.filter(e => e.method === 'runTests')).toHaveLength(0);
+  });
+}
+
+test('should report unreadable reports', async ({ activate }, testInfo) => {
+  const { vscode } = await activate({
+    ...files,
+    'report.zip': 'not a zip',
+  });
+
+  vscode.window.mockOpenDialog = async () => [vscode.Uri.file(testInfo.outputPath('report.zip'))];
+  await vscode.commands.executeCommand('pw.extension.command.loadReport');
+  expect(vscode.errors).toEqual(['Unable to load test report: Not a zip file']);
+});
+
+test('should not extract report entries outside of the resources folder', async ({ activate }, testInfo) => {
+  const { vscode } = await activate(files);
+  await fs.promises.writeFile(testInfo.outputPath('report.zip'), createZip({
+    'report.jsonl': '',
+    'resources/../../../evil.txt': 'evil',
+  }));
+
+  vscode.window.mockOpenDialog = async () => [vscode.Uri.file(testInfo.outputPath('report.zip'))];
+  await vscode.commands.executeCommand('pw.extension.command.loadReport');
+  expect(vscode.errors).toEqual(['Unable to load test report: report.zip contains an invalid entry resources/../../../evil.txt']);
+  expect(fs.existsSync(path.join(testInfo.outputPath(), '..', 'evil.txt'))).toBe(false);
+});
+
+test('should show results of all projects from a json report', async ({ activate }, testInfo) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = {
+      testDir: 'tests',
+      projects: [{ name: 'projectA' }, { name: 'projectB' }],
+    }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test.describe('group', () => {
+        test('should pass in projectA', async () => {
+          expect(test.info().project.name).toBe('projectA');
+        });
+      });
+    `,
+  });
+  await enableProjects(vscode, ['projectB']);
+  runPlaywright(testInfo.outputPath(), 'json');
+
+  vscode.window.mockOpenDialog = async () => [vscode.Uri.file(testInfo.outputPath('report.json'))];
+  const testRunPromise = new Promise<any>(f => testController.onDidCreateTestRun(f));
+  await vscode.commands.executeCommand('pw.extension.command.loadReport');
+  const testRun = await testRunPromise;
+
+  expect(testRun.renderLog()).toBe(`
+    tests > test.spec.ts > group > should pass in projectA [3:0]
+      failed
+  `);
+});
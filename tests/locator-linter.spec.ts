@@ -0,0 +1,106 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { expect, test } from './utils';
+
+test('should flag brittle locators and replace them', async ({ activate }, testInfo) => {
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': [
+      `import { test } from '@playwright/test';`,
+      `test('one', async ({ page }) => {`,
+      `  await page.locator('//button[text()="Save"]').click();`,
+      `  await page.click('#list > li:nth-child(2) [data-testid="row-2"]', { force: true });`,
+      `  await page.getByText('Showing 10 results').waitFor();`,
+      `  await page.getByRole('listitem').first().click();`,
+      `  await page.getByRole('listitem').filter({ hasText: 'Milk' }).first().click();`,
+      `});`,
+    ].join('\n'),
+  });
+
+  await vscode.openEditors('**/test.spec.ts');
+  await expect.poll(() => vscode.languages.getDiagnostics().map((d: any) => `${d.range.start.line}:${d.range.start.character} ${d.message}`)).toEqual([
+    '2:13 XPath selectors break when the page structure changes, prefer getByRole() or getByTestId().',
+    '3:13 Positional CSS selectors break when the page structure changes, prefer getByRole() or getByTestId().',
+    '4:13 Text with numbers is likely to change between runs, match it with a regular expression.',
+    '5:35 first() picks whichever element happens to match first, narrow the locator down with filter().',
+  ]);
+
+  const document = await vscode.workspace.openTextDocument(testInfo.outputPath('tests/test.spec.ts'));
+  const actions = vscode.codeActionsProviders.flatMap((provider: any) => provider.provideCodeActions(document, new vscode.Range(2, 0, 4, 0)));
+  expect(actions.map((action: { title: string }) => action.title)).toEqual([
+    `Replace with getByRole('button', { name: 'Save' })`,
+    `Replace with getByTestId('row-2')`,
+    `Replace with getByText(/Showing \\d+ results/)`,
+  ]);
+
+  for (const action of actions)
+    await vscode.workspace.applyEdit(action.edit);
+  expect(await fs.promises.readFile(testInfo.outputPath('tests/test.spec.ts'), 'utf8')).toContain([
+    `  await page.getByRole('button', { name: 'Save' }).click();`,
+    `  await page.getByTestId('row-2').click({ force: true });`,
+    `  await page.getByText(/Showing \\d+ results/).waitFor();`,
+  ].join('\n'));
+
+  const [filter] = vscode.codeActionsProviders.flatMap((provider: any) => provider.provideCodeActions(document, new vscode.Range(5, 0, 5, 0)));
+  expect(filter.title).toBe('Narrow down with filter()');
+  await vscode.workspace.applyEdit(filter.edit);
+  expect(await fs.promises.readFile(testInfo.outputPath('tests/test.spec.ts'), 'utf8')).toContain(
+      `  await page.getByRole('listitem').filter({ hasText: 'text' }).first().click();`);
+});
+
+test('should not lint files that are not tests', async ({ activate }) => {
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': [
+      `import { test } from '@playwright/test';`,
+      `test('one', async ({ page }) => {`,
+      `  await page.getByRole('listitem').first().click();`,
+      `});`,
+    ].join('\n'),
+    'src/app.ts': [
+      `export function firstItem(items: any) {`,
+      `  return items.locator('//li').first();`,
+      `}`,
+    ].join('\n'),
+  });
+
+  await vscode.openEditors('**/*.ts');
+  await expect.poll(() => vscode.languages.getDiagnostics().map((d: any) => `${d.range.start.line}:${d.range.start.character} ${d.message}`)).toEqual([
+    '2:35 first() picks whichever element happens to match first, narrow the locator down with filter().',
+  ]);
+});
+
+test('should suggest test ids of the configured test id attribute', async ({ activate }, testInfo) => {
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests', use: { testIdAttribute: 'data-test' } }`,
+    'tests/test.spec.ts': [
+      `import { test } from '@playwright/test';`,
+      `test('one', async ({ page }) => {`,
+      `  await page.locator('#list > li:nth-child(2) [data-test="row-2"]').click();`,
+      `  await page.locator('#list > li:nth-child(3) button[data-testid="row-3"]').click();`,
+      `});`,
+    ].join('\n'),
+  });
+
+  await vscode.openEditors('**/test.spec.ts');
+  const document = await vscode.workspace.openTextDocument(testInfo.outputPath('tests/test.spec.ts'));
+  const actions = vscode.codeActionsProviders.flatMap((provider: any) => provider.provideCodeActions(document, new vscode.Range(2, 0, 3, 0)));
+  expect(actions.map((action: { title: string }) => action.title)).toEqual([
+    `Replace with getByTestId('row-2')`,
+  ]);
+});
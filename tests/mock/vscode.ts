@@ -18,6 +18,7 @@ import fs from 'fs';
 import glob from 'glob';
 import path from 'path';
 import { Disposable, EventEmitter, Event } from '../../src/upstream/events';
+import { MultiMap } from '../../src/multimap';
 import { minimatch } from 'minimatch';
 import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
 import which from 'which';
@@ -128,6 +129,13 @@ class Range {
 }
 
 class Selection extends Range {
+  get anchor() {
+    return this.start;
+  }
+
+  get active() {
+    return this.end;
+  }
 }
 
 class CancellationTokenSource implements Disposable {
@@ -325,6 +333,7 @@ function itemOrder(item: TestItem) {
 
 class TestRunProfile {
   private _isDefault = true;
+  loadDetailedCoverage?: (testRun: TestRun, fileCoverage: FileCoverage) => Promise<StatementCoverage[]>;
   readonly didChangeDefault = new EventEmitter<boolean>();
   readonly onDidChangeDefault: Event<boolean> | undefined;
 
@@ -437,6 +446,7 @@ export class TestRun {
   readonly entries = new Map<TestItem, LogEntry[]>();
   readonly token = new CancellationTokenSource().token;
   readonly output: { output: string, location?: Location, test?: TestItem }[] = [];
+  readonly coverage: FileCoverage[] = [];
 
   constructor(
     readonly request: TestRunRequest,
@@ -484,6 +494,10 @@ export class TestRun {
     this._didOutput.fire(output);
   }
 
+  addCoverage(fileCoverage: FileCoverage) {
+    this.coverage.push(fileCoverage);
+  }
+
   end() {
     this._didEnd.fire();
   }
@@ -607,6 +621,8 @@ type Decoration = { type?: number, range: Range, renderOptions?: any };
 class TextDocument {
   uri: Uri;
   lines: string[] = [];
+  isDirty = false;
+  version = 0;
 
   constructor(uri: Uri) {
     this.uri = uri;
@@ -634,6 +650,13 @@ class TextDocument {
   async _load() {
     const text = await fs.promises.readFile(this.uri.fsPath, 'utf-8');
     this.lines = text.split('\n');
+    ++this.version;
+  }
+
+  async save() {
+    await fs.promises.writeFile(this.uri.fsPath, this.text);
+    this.isDirty = false;
+    return true;
   }
 
   lineAt(i: number) {
@@ -669,7 +692,8 @@ class TextEditor {
           'activeStep',
           'completedStep',
           'pausedAtEnd',
-          'pausedOnError'
+          'pausedOnError',
+          'traceAction',
         ][type - 1];
         lines.push(`${decoration.range.toString()}: decorator ${name}${options}`);
       }
@@ -712,8 +736,10 @@ class TextEditor {
         }
         newLines.push(...lines.slice(range.end.line + 1));
         this.document.lines = newLines;
+        ++this.document.version;
+        this.document.isDirty = true;
 
-        this.selection = range.clone();
+        this.selection = new Selection(range.start, range.end);
         const lastLine = editLines[editLines.length - 1];
         const endOfLastLine = new Position(range.start.line + (editLines.length - 1), editLines.length > 1 ? lastLine.length : range.start.character + lastLine.length);
         this.selection.end = endOfLastLine;
@@ -765,6 +791,11 @@ class Debug {
     this.dapFactories.push(factory);
   }
 
+  // Sessions that answer debug adapter requests themselves, without a debugger process.
+  simulateDebugSession(session: DebugSession) {
+    this._didStartDebugSession.fire(session);
+  }
+
   async startDebugging(folder: WorkspaceFolder | undefined, configuration: DebugConfiguration, parentSession?: DebugSession): Promise<boolean> {
     const session = new DebugSession('<extension-id>', configuration.type, configuration.name, folder, configuration, parentSession);
     for (const factory of this.dapFactories)
@@ -849,7 +880,7 @@ export class DebugSession {
     readonly parentSession?: DebugSession,
   ) {}
 
-  async customRequest(command: string, args?: any) {}
+  async customRequest(command: string, args?: any): Promise<any> {}
 
   async getDebugProtocolBreakpoint() {}
 }
@@ -872,6 +903,10 @@ class MarkdownString {
   }
 }
 
+class Hover {
+  constructor(readonly contents: MarkdownString | MarkdownString[], readonly range?: Range) {}
+}
+
 class TestTag {
   name: string;
   constructor(name: string) {
@@ -879,6 +914,77 @@ class TestTag {
   }
 }
 
+class StatementCoverage {
+  constructor(readonly executed: number, readonly location: Position) {}
+}
+
+class FileCoverage {
+  constructor(readonly uri: Uri, readonly statementCoverage: { covered: number, total: number }) {}
+
+  static fromDetails(uri: Uri, details: StatementCoverage[]) {
+    return new FileCoverage(uri, { covered: details.filter(d => d.executed).length, total: details.length });
+  }
+}
+
+enum TreeItemCollapsibleState {
+  None = 0,
+  Collapsed = 1,
+  Expanded = 2,
+}
+
+class TreeItem {
+  description?: string;
+  tooltip?: string;
+  iconPath?: ThemeIcon;
+  command?: any;
+  constructor(readonly label: string, readonly collapsibleState = TreeItemCollapsibleState.None) {}
+}
+
+class ThemeIcon {
+  constructor(readonly id: string) {}
+}
+
+enum CodeActionKind {
+  QuickFix = 'quickfix',
+}
+
+class CodeAction {
+  command?: any;
+  edit?: WorkspaceEdit;
+  constructor(readonly title: string, readonly kind?: CodeActionKind) {}
+}
+
+class SnippetString {
+  constructor(readonly value: string) {}
+}
+
+class SnippetTextEdit {
+  constructor(readonly range: Range, readonly snippet: SnippetString) {}
+}
+
+class WorkspaceEdit {
+  readonly _createdFiles: { uri: Uri, contents?: Uint8Array }[] = [];
+  readonly _edits: { uri: Uri, range: Range, newText: string }[] = [];
+
+  createFile(uri: Uri, options?: { contents?: Uint8Array }) {
+    this._createdFiles.push({ uri, contents: options?.contents });
+  }
+
+  insert(uri: Uri, position: Position, newText: string) {
+    this._edits.push({ uri, range: new Range(position.line, position.character, position.line, position.character), newText });
+  }
+
+  replace(uri: Uri, range: Range, newText: string) {
+    this._edits.push({ uri, range, newText });
+  }
+
+  set(uri: Uri, edits: SnippetTextEdit[]) {
+    // Snippets are applied with their placeholders filled in with the defaults.
+    for (const { range, snippet } of edits)
+      this._edits.push({ uri, range, newText: snippet.value.replace(/\$\{\d+:([^}]*)\}/g, '$1').replace(/\$\d+/g, '') });
+  }
+}
+
 class DiagnosticsCollection {
   readonly _entries = new Map<string, Diagnostic[]>();
 
@@ -916,27 +1022,38 @@ enum UIKind {
 }
 
 type HoverProvider = {
-  provideHover?(document: TextDocument, position: Position, token: CancellationToken): void
+  provideHover?(document: TextDocument, position: Position, token: CancellationToken): Hover | null | undefined
 };
 
 export class VSCode {
   isUnderTest = true;
   CancellationTokenSource = CancellationTokenSource;
+  CodeAction = CodeAction;
+  CodeActionKind = CodeActionKind;
   ColorThemeKind = ColorThemeKind;
   DiagnosticSeverity = DiagnosticSeverity;
   EventEmitter = EventEmitter;
+  FileCoverage = FileCoverage;
+  Hover = Hover;
   Location = Location;
   MarkdownString = MarkdownString;
   Position = Position;
   Range = Range;
   Selection = Selection;
+  SnippetString = SnippetString;
+  SnippetTextEdit = SnippetTextEdit;
+  StatementCoverage = StatementCoverage;
   TestTag = TestTag;
   TestMessage = TestMessage;
   TestMessageStackFrame = TestMessageStackFrame;
   TestRunProfileKind = TestRunProfileKind;
   TestRunRequest = TestRunRequest;
+  ThemeIcon = ThemeIcon;
+  TreeItem = TreeItem;
+  TreeItemCollapsibleState = TreeItemCollapsibleState;
   Uri = Uri;
   UIKind = UIKind;
+  WorkspaceEdit = WorkspaceEdit;
   commands: any = {};
   debug: Debug;
   languages: any = {};
@@ -980,11 +1097,16 @@ export class VSCode {
   private _browser: Browser;
   private _webViewsByPanelType = new Map<string, Set<Page>>();
   readonly webViews = new Map<string, Page>();
+  readonly treeDataProviders = new Map<string, any>();
+  readonly treeViews = new Map<string, { selection: any[] }>();
+  readonly codeActionsProviders: any[] = [];
+  readonly definitionProviders: any[] = [];
+  readonly textDocumentContentProviders = new Map<string, any>();
   readonly commandLog: string[] = [];
   readonly l10n = new L10n();
   lastWithProgressData: any;
   lastWithProgressToken?: CancellationTokenSource;
-  private _hoverProviders: Map<string, HoverProvider> = new Map();
+  private _hoverProviders = new MultiMap<string, HoverProvider>();
   readonly version: string;
   readonly connectionLog: any[] = [];
   readonly openExternalUrls: string[] = [];
@@ -1001,14 +1123,15 @@ export class VSCode {
     this.context = { subscriptions: [], extensionUri: Uri.file(baseDir), workspaceState };
     this._browser = browser;
     (globalThis as any).__logForTest = (message: any) => this.connectionLog.push(message);
-    const commands = new Map<string, () => Promise<void>>();
-    this.commands.registerCommand = (name: string, callback: () => Promise<void>) => {
+    const commands = new Map<string, (...args: any[]) => Promise<any>>();
+    this.commands.registerCommand = (name: string, callback: (...args: any[]) => Promise<any>) => {
       commands.set(name, callback);
       return disposable;
     };
-    this.commands.executeCommand = async (name: string) => {
-      await commands.get(name)?.();
+    this.commands.executeCommand = async (name: string, ...args: any[]) => {
+      const result = await commands.get(name)?.(...args);
       this.commandLog.push(name);
+      return result;
     };
     this.debug = new Debug();
     this.context.subscriptions.push(
@@ -1022,15 +1145,24 @@ export class VSCode {
         this._didShowInputBox,
     );
 
-    this.languages.registerHoverProvider = (language: string, provider: HoverProvider) => {
-      this._hoverProviders.set(language, provider);
+    this.languages.registerHoverProvider = (selector: any, provider: HoverProvider) => {
+      for (const filter of Array.isArray(selector) ? selector : [selector])
+        this._hoverProviders.set(typeof filter === 'string' ? filter : filter.language, provider);
       return disposable;
     };
     this.languages.emitHoverEvent = (language: string, document: TextDocument, position: Position, token: CancellationToken) => {
-      const provider = this._hoverProviders.get(language);
-      if (!provider)
-        return;
-      provider.provideHover?.(document, position, token);
+      let result;
+      for (const provider of this._hoverProviders.get(language))
+        result = provider.provideHover?.(document, position, token) || result;
+      return result;
+    };
+    this.languages.registerDefinitionProvider = (selector: any, provider: any) => {
+      this.definitionProviders.push(provider);
+      return disposable;
+    };
+    this.languages.registerCodeActionsProvider = (selector: any, provider: any) => {
+      this.codeActionsProviders.push(provider);
+      return disposable;
     };
     this.languages.getDiagnostics = () => {
       const result: Diagnostic[] = [];
@@ -1059,7 +1191,23 @@ export class VSCode {
     this.window.showWarningMessage = (message: string) => this.warnings.push(message);
     this.window.showErrorMessage = (message: string) => this.errors.push(message);
     this.window.visibleTextEditors = [];
-    this.window.registerTreeDataProvider = () => disposable;
+    this.window.registerTreeDataProvider = (viewId: string, provider: any) => {
+      this.treeDataProviders.set(viewId, provider);
+      return disposable;
+    };
+    this.window.createTreeView = (viewId: string, options: { treeDataProvider: any }) => {
+      this.treeDataProviders.set(viewId, options.treeDataProvider);
+      const treeView = {
+        visible: true,
+        selection: [] as any[],
+        reveal: async (element: any) => {
+          treeView.selection = [element];
+        },
+        dispose: () => {},
+      };
+      this.treeViews.set(viewId, treeView);
+      return treeView;
+    };
     this.window.registerWebviewViewProvider = (name: string, provider: any) => {
       this._webviewProviders.set(name, provider);
       return disposable;
@@ -1073,6 +1221,7 @@ export class VSCode {
       panel.onDidChangeViewState = didChangeViewState.event;
       panel.webview = webview;
       panel.visible = true;
+      panel.reveal = () => {};
       webview.onDidChangeVisibility((visibilityState: string) => {
         panel.visible = visibilityState === 'visible';
         didChangeViewState.fire({ webviewPanel: panel });
@@ -1140,6 +1289,12 @@ export class VSCode {
     this.window.showQuickPick = async (options: any) => {
       return this.window.mockQuickPick(options);
     };
+    this.window.showSaveDialog = async (options: any) => {
+      return this.window.mockSaveDialog(options);
+    };
+    this.window.showOpenDialog = async (options: any) => {
+      return this.window.mockOpenDialog(options);
+    };
     this.window.registerTerminalLinkProvider = () => disposable;
     Object.defineProperty(this.window, 'activeColorTheme', {
       get: () => {
@@ -1158,12 +1313,39 @@ export class VSCode {
       return watcher;
     };
     this.workspace.workspaceFolders = [];
+    Object.defineProperty(this.workspace, 'textDocuments', {
+      get: () => this.window.visibleTextEditors.map((editor: TextEditor) => editor.document),
+    });
     this.workspace.openTextDocument = async (file: string) => {
       const document = new TextDocument(Uri.file(file));
       await document._load();
       return document;
     };
 
+    this.workspace.registerTextDocumentContentProvider = (scheme: string, provider: any) => {
+      this.textDocumentContentProviders.set(scheme, provider);
+      return disposable;
+    };
+    this.workspace.applyEdit = async (edit: WorkspaceEdit) => {
+      for (const { uri, contents } of edit._createdFiles)
+        await fs.promises.writeFile(uri.fsPath, contents ?? '');
+      // Ranges refer to the text before the edit, apply bottom up.
+      const edits = [...edit._edits].sort((a, b) => b.range.start.line - a.range.start.line || b.range.start.character - a.range.start.character);
+      for (const { uri, range, newText } of edits) {
+        const document = await this.workspace.openTextDocument(uri.fsPath);
+        const lines: string[] = document.lines;
+        const before = lines.slice(0, range.start.line).join('\n') + (range.start.line ? '\n' : '') + lines[range.start.line].substring(0, range.start.character);
+        const after = lines[range.end.line].substring(range.end.character) + (range.end.line + 1 < lines.length ? '\n' : '') + lines.slice(range.end.line + 1).join('\n');
+        await fs.promises.writeFile(uri.fsPath, before + newText + after);
+        // Keep the editors showing the document in sync.
+        for (const editor of this.window.visibleTextEditors.filter((e: TextEditor) => e.document.uri.fsPath === uri.fsPath)) {
+          editor.document.lines = (before + newText + after).split('\n');
+          ++editor.document.version;
+        }
+      }
+      return true;
+    };
+
     this.workspace.findFiles = async (pattern: string) => {
       const uris: Uri[] = [];
       for (const workspaceFolder of this.workspace.workspaceFolders) {
@@ -0,0 +1,76 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, selectTestItem, test } from './utils';
+
+test('should list network requests and insert a route mock', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests', use: { trace: 'on' } }`,
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      import http from 'http';
+      test('should fetch', async ({ request }) => {
+        const server = http.createServer((req, res) => {
+          res.statusCode = req.url === '/missing' ? 404 : 200;
+          res.setHeader('content-type', 'application/json');
+          res.end(JSON.stringify({ url: req.url }));
+        });
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        const prefix = 'http://localhost:' + (server.address() as any).port;
+        await request.get(prefix + '/items');
+        await request.get(prefix + '/missing');
+        server.close();
+
+      });
+    `,
+  });
+
+  const webView = vscode.webViews.get('pw.extension.networkView')!;
+  await expect(webView.getByText('Select a test with a trace in the Testing view to see its network requests.')).toBeVisible();
+
+  await testController.run();
+  await testController.expandTestItems(/test.spec/);
+  selectTestItem(testController.findTestItems(/should fetch/)[0]);
+
+  const requests = webView.getByRole('listitem');
+  await expect(requests).toHaveCount(2);
+  await expect(requests.nth(0)).toContainText('GET');
+  await expect(requests.nth(0)).toContainText('/items');
+  await expect(requests.nth(1)).toContainText('404');
+
+  await webView.getByRole('combobox', { name: 'Status' }).selectOption('failed');
+  await expect(requests).toHaveCount(1);
+  await expect(requests).toContainText('/missing');
+  await webView.getByRole('combobox', { name: 'Status' }).selectOption('all');
+  await webView.getByRole('searchbox', { name: 'Filter by method or URL' }).fill('items');
+  await expect(requests).toHaveCount(1);
+
+  await vscode.openEditors('**/test.spec.ts');
+  const editor = vscode.window.activeTextEditor;
+  editor.selection = new vscode.Selection(14, 0, 14, 0);
+  await requests.getByRole('button', { name: 'Insert page.route mock' }).click();
+  await expect.poll(() => editor.edits.length).toBe(1);
+  expect(editor.edits[0].to).toContain(`<selection>        await page.route('http://localhost:`);
+  expect(editor.edits[0].to).toContain(`/items', async route => {
+          await route.fulfill({
+            status: 200,
+            json: {
+              "url": "/items"
+            },
+          });
+        });</selection>
+      });`);
+});
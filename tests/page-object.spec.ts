@@ -0,0 +1,158 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { expect, test } from './utils';
+
+test('should extract page object from test', async ({ activate }, testInfo) => {
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/login.spec.ts': [
+      `import { test, expect } from '@playwright/test';`,
+      ``,
+      `test('login twice', async ({ page }) => {`,
+      `  await page.goto('https://example.com');`,
+      `  await page.getByRole('textbox', { name: 'Username' }).fill('alice');`,
+      `  await page.getByRole('button', { name: 'Log in' }).click();`,
+      `  await page.getByRole('link', { name: 'Log out' }).click();`,
+      `  await page.getByRole('textbox', { name: 'Username' }).fill('bob');`,
+      `  await page.getByRole('button', { name: 'Log in' }).click();`,
+      `  await expect(page.locator('#greeting')).toHaveText('Welcome bob');`,
+      `});`,
+    ].join('\n'),
+  });
+
+  await vscode.openEditors('**/login.spec.ts');
+  const editor = vscode.window.activeTextEditor;
+  editor.selection = new vscode.Selection(3, 2, 3, 2);
+  await vscode.commands.executeCommand('pw.extension.command.extractPageObject', 'LoginPage');
+
+  expect(await fs.promises.readFile(testInfo.outputPath('tests/login-page.ts'), 'utf8')).toBe([
+    `import type { Locator, Page } from '@playwright/test';`,
+    ``,
+    `export class LoginPage {`,
+    `  readonly page: Page;`,
+    `  readonly usernameTextbox: Locator;`,
+    `  readonly logInButton: Locator;`,
+    `  readonly logOutLink: Locator;`,
+    `  readonly greetingLocator: Locator;`,
+    ``,
+    `  constructor(page: Page) {`,
+    `    this.page = page;`,
+    `    this.usernameTextbox = page.getByRole('textbox', { name: 'Username' });`,
+    `    this.logInButton = page.getByRole('button', { name: 'Log in' });`,
+    `    this.logOutLink = page.getByRole('link', { name: 'Log out' });`,
+    `    this.greetingLocator = page.locator('#greeting');`,
+    `  }`,
+    ``,
+    `  async logIn(username: string) {`,
+    `    await this.usernameTextbox.fill(username);`,
+    `    await this.logInButton.click();`,
+    `  }`,
+    `}`,
+    ``,
+  ].join('\n'));
+
+  expect(editor.document.getText()).toBe([
+    `import { test, expect } from '@playwright/test';`,
+    `import { LoginPage } from './login-page';`,
+    ``,
+    `test('login twice', async ({ page }) => {`,
+    `  const loginPage = new LoginPage(page);`,
+    `  await page.goto('https://example.com');`,
+    `  await loginPage.logIn('alice');`,
+    `  await loginPage.logOutLink.click();`,
+    `  await loginPage.logIn('bob');`,
+    `  await expect(loginPage.greetingLocator).toHaveText('Welcome bob');`,
+    `});`,
+  ].join('\n'));
+});
+
+test('should resolve page object locators for hover and go to definition', async ({ activate }) => {
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'pages/login-page.ts': [
+      `import type { Locator, Page } from '@playwright/test';`,
+      ``,
+      `export class LoginPage {`,
+      `  readonly form: Locator;`,
+      `  readonly submitButton: Locator;`,
+      ``,
+      `  constructor(readonly page: Page) {`,
+      `    this.form = page.locator('form');`,
+      `    this.submitButton = this.form.getByRole('button', { name: 'Submit' });`,
+      `  }`,
+      `}`,
+    ].join('\n'),
+    'fixtures.ts': [
+      `import { test as base } from '@playwright/test';`,
+      `import { LoginPage } from './pages/login-page';`,
+      ``,
+      `export const test = base.extend<{ loginPage: LoginPage }>({`,
+      `  loginPage: async ({ page }, use) => {`,
+      `    await use(new LoginPage(page));`,
+      `  },`,
+      `});`,
+    ].join('\n'),
+    'tests/login.spec.ts': [
+      `import { test } from '../fixtures';`,
+      ``,
+      `test('login', async ({ loginPage }) => {`,
+      `  await loginPage.submitButton.click();`,
+      `});`,
+    ].join('\n'),
+  });
+
+  await vscode.openEditors('**/login.spec.ts');
+  const document = vscode.window.activeTextEditor.document;
+  const position = new vscode.Position(3, 22);
+
+  const hover = vscode.languages.emitHoverEvent('typescript', document, position);
+  expect(hover.contents.render()).toBe([
+    '```ts',
+    `page.locator('form').getByRole('button', { name: 'Submit' })`,
+    '```',
+  ].join('\n'));
+
+  const [location] = vscode.definitionProviders.map((provider: any) => provider.provideDefinition(document, position));
+  expect(location.uri.path).toContain('pages/login-page.ts');
+  expect(location.range.start).toEqual(expect.objectContaining({ line: 8, character: 9 }));
+});
+
+test('should not resolve page object members that are not locators', async ({ activate }) => {
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/login.spec.ts': [
+      `import { test, type Page } from '@playwright/test';`,
+      ``,
+      `class LoginPage {`,
+      `  readonly url = '/login';`,
+      `  constructor(readonly page: Page) {}`,
+      `}`,
+      ``,
+      `test('login', async ({ page }) => {`,
+      `  const loginPage = new LoginPage(page);`,
+      `  await page.goto(loginPage.url);`,
+      `});`,
+    ].join('\n'),
+  });
+
+  await vscode.openEditors('**/login.spec.ts');
+  const document = vscode.window.activeTextEditor.document;
+  const position = new vscode.Position(9, 29);
+  expect(vscode.languages.emitHoverEvent('typescript', document, position)).toBeFalsy();
+  expect(vscode.definitionProviders.map((provider: any) => provider.provideDefinition(document, position))).toEqual([null]);
+});
@@ -146,3 +146,124 @@ test('running test should dismiss the toolbar', async ({ activate, showBrowser }
 
   await waitForRecorderMode(vscode, 'none');
 });
+
+test('should keep locator history with favorites', async ({ activate }) => {
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = {}`,
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      test('one', async ({ page }) => {
+        await page.
+      });
+    `,
+  });
+
+  const locatorsView = vscode.webViews.get('pw.extension.locatorsView')!;
+  const locatorInput = locatorsView.getByRole('textbox', { name: 'Locator' });
+  await locatorInput.fill(`getByRole('button', { name: 'Submit' })`);
+  await locatorInput.press('Enter');
+  await locatorInput.fill(`getByText('Hello')`);
+  await locatorInput.press('Enter');
+
+  const entries = locatorsView.getByRole('list', { name: 'History' }).getByRole('listitem');
+  await expect(entries).toHaveText([/getByText\('Hello'\)/, /getByRole\('button', { name: 'Submit' }\)/]);
+
+  await entries.nth(1).getByRole('button', { name: 'Add to favorites' }).click();
+  await expect(entries).toHaveText([/getByRole\('button', { name: 'Submit' }\)/, /getByText\('Hello'\)/]);
+  await expect(entries.first().getByRole('button', { name: 'Remove from favorites' })).toBeVisible();
+  expect(vscode.context.workspaceState.get('pw.locator-history')).toEqual([
+    expect.objectContaining({ kind: 'locator', value: `getByText('Hello')`, favorite: false }),
+    expect.objectContaining({ kind: 'locator', value: `getByRole('button', { name: 'Submit' })`, favorite: true }),
+  ]);
+
+  await vscode.openEditors('**/test.spec.ts');
+  const editor = vscode.window.activeTextEditor;
+  editor.selection = new vscode.Selection(3, 19, 3, 19);
+  await entries.first().getByRole('button', { name: 'Insert' }).click();
+  await expect.poll(() => editor.edits.length).toBe(1);
+  expect(editor.edits[0].to).toContain(`await page.<selection>getByRole('button', { name: 'Submit' })</selection>`);
+
+  await entries.last().getByRole('button', { name: 'Highlight' }).click();
+  await expect(locatorInput).toHaveValue(`getByText('Hello')`);
+});
+
+test('should list matching elements and refine the locator', async ({ activate }) => {
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = {}`,
+  });
+
+  const settingsView = vscode.webViews.get('pw.extension.settingsView')!;
+  await settingsView.getByText('Pick locator').click();
+  await waitForRecorderMode(vscode, 'inspecting');
+
+  const browser = await connectToSharedBrowser(vscode);
+  const page = await waitForPage(browser);
+  await page.setContent(`
+    <h1>Hello</h1>
+    <h1>World</h1>
+  `);
+  const worldBox = await page.getByRole('heading', { name: 'World' }).boundingBox();
+
+  // No released debug controller lists matches, answer the protocol call on its behalf.
+  const requested: string[] = [];
+  const hello = { tagName: 'H1', role: 'heading', name: 'Hello', text: 'Hello' };
+  const world = { tagName: 'H1', role: 'heading', name: 'World', text: 'World' };
+  const backend = vscode.extensions[0].reusedBrowserForTest()._backend;
+  const send = backend.send.bind(backend);
+  backend.send = async (method: string, params: any) => {
+    if (method !== 'matchingElements')
+      return await send(method, params);
+    requested.push(params.selector);
+    return { elements: params.selector === `locator('h1')` ? [hello, world] : [world] };
+  };
+
+  const locatorsView = vscode.webViews.get('pw.extension.locatorsView')!;
+  const locatorInput = locatorsView.getByRole('textbox', { name: 'Locator' });
+  const matchCount = locatorsView.locator('#locatorMatchCount');
+  const matches = locatorsView.locator('#locatorMatches').getByRole('listitem');
+  await locatorInput.fill(`locator('h1')`);
+  await expect(matchCount).toHaveText('2 elements match');
+  await expect(matches).toHaveText([/<h1>\s*heading "Hello" · Hello/, /<h1>\s*heading "World" · World/]);
+
+  await matches.nth(1).getByRole('button', { name: '.filter()' }).click();
+  await expect(locatorInput).toHaveValue(`locator('h1').filter({ hasText: 'World' })`);
+  await expect(matchCount).toHaveText('1 element matches');
+  await expect(matches).toHaveCount(0);
+  await expect(page.locator('x-pw-highlight')).toBeVisible();
+  expect(await page.locator('x-pw-highlight').boundingBox()).toEqual(worldBox);
+
+  await locatorInput.fill(`locator('h1')`);
+  await expect(matches).toHaveCount(2);
+  await matches.nth(1).getByRole('button', { name: '.nth()' }).click();
+  await expect(locatorInput).toHaveValue(`locator('h1').nth(1)`);
+  await expect(matchCount).toHaveText('1 element matches');
+  expect(requested).toEqual([
+    `locator('h1')`,
+    `locator('h1').filter({ hasText: 'World' })`,
+    `locator('h1')`,
+    `locator('h1').nth(1)`,
+  ]);
+});
+
+test('should tell when the backend does not list matches', async ({ activate }) => {
+  const { vscode } = await activate({
+    'playwright.config.js': `module.exports = {}`,
+  });
+
+  const settingsView = vscode.webViews.get('pw.extension.settingsView')!;
+  await settingsView.getByText('Pick locator').click();
+  await waitForRecorderMode(vscode, 'inspecting');
+
+  const browser = await connectToSharedBrowser(vscode);
+  const page = await waitForPage(browser);
+  await page.setContent(`
+    <h1>Hello</h1>
+    <h1>World</h1>
+  `);
+
+  const locatorsView = vscode.webViews.get('pw.extension.locatorsView')!;
+  await locatorsView.getByRole('textbox', { name: 'Locator' }).fill(`locator('h1')`);
+  await expect(page.locator('x-pw-highlight').first()).toBeVisible();
+  await expect(locatorsView.locator('#locatorMatchCount')).toHaveText('The installed Playwright version can not list the matching elements.');
+  await expect(locatorsView.locator('#locatorMatches').getByRole('listitem')).toHaveCount(0);
+});
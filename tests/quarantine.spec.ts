@@ -0,0 +1,180 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TestRun } from './mock/vscode';
+import { expect, test } from './utils';
+
+test('should skip quarantined tests', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should pass', async () => {});
+      test('should fail', async () => { expect(1).toBe(2); });
+    `,
+  });
+
+  await testController.expandTestItems(/test.spec/);
+  const [failing] = testController.findTestItems(/fail/);
+  await vscode.commands.executeCommand('pw.extension.command.toggleQuarantine', failing);
+  expect(failing.tags.map(t => t.name)).toEqual(['quarantined']);
+
+  const testRun = await testController.run();
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ✅ should pass [2:0]
+        - ◯ should fail [3:0]
+  `);
+  expect(testRun.renderLog()).toContain(`should fail [3:0]
+      enqueued
+      skipped`);
+
+  await expect(vscode).toHaveConnectionLog([
+    { method: 'listFiles', params: {} },
+    { method: 'listTests', params: expect.anything() },
+    { method: 'runGlobalSetup', params: {} },
+    { method: 'runTests', params: expect.objectContaining({
+      locations: [],
+      grepInvert: '(?:^| )test\\.spec\\.ts (?:@\\S+ )*should fail(?: @\\S+)*$',
+    }) },
+  ]);
+});
+
+test('should not skip tests whose title starts with a quarantined title', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('login', { tag: '@auth' }, async () => { expect(1).toBe(2); });
+      test('login with sso', async () => {});
+    `,
+  });
+
+  await testController.expandTestItems(/test.spec/);
+  const [login] = testController.findTestItems(/^login$/);
+  await vscode.commands.executeCommand('pw.extension.command.toggleQuarantine', login);
+
+  await testController.run();
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ◯ login [2:0]
+        - ✅ login with sso [3:0]
+  `);
+});
+
+test('should skip quarantined tests in watch runs', async ({ activate }) => {
+  const { vscode, testController, workspaceFolder } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should pass', async () => {});
+      test('should fail', async () => { expect(1).toBe(2); });
+    `,
+  });
+
+  await testController.expandTestItems(/test.spec/);
+  const [failing] = testController.findTestItems(/fail/);
+  await vscode.commands.executeCommand('pw.extension.command.toggleQuarantine', failing);
+
+  await Promise.all([
+    new Promise<void>(f => testController.onDidCreateTestRun(testRun => testRun.onDidEnd(f))),
+    testController.watch(testController.findTestItems(/test.spec/)),
+  ]);
+  const [watchRun] = await Promise.all([
+    new Promise<TestRun>(f => testController.onDidCreateTestRun(testRun => testRun.onDidEnd(() => f(testRun)))),
+    workspaceFolder.changeFile('tests/test.spec.ts', `
+      import { test, expect } from '@playwright/test';
+      test('should pass', async () => {});
+      test('should fail', async () => { expect(1).toBe(2); });
+    `),
+  ]);
+
+  expect(watchRun.renderLog()).toContain(`should fail [3:0]
+      enqueued
+      skipped`);
+  expect(watchRun.renderLog()).not.toContain('failed');
+});
+
+test('should not run a quarantined test by id', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should fail', async () => { expect(1).toBe(2); });
+    `,
+  });
+
+  await testController.expandTestItems(/test.spec/);
+  const testItems = testController.findTestItems(/fail/);
+  await vscode.commands.executeCommand('pw.extension.command.toggleQuarantine', ...testItems);
+  await testController.run(testItems);
+
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ◯ should fail [2:0]
+  `);
+  expect(vscode.connectionLog.filter(e => e.method === 'runTests')).toHaveLength(0);
+});
+
+test('should run quarantined tests without reporting failures', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should fail', async () => { expect(1).toBe(2); });
+    `,
+  });
+
+  vscode.workspace.getConfiguration('playwright').update('quarantineMode', 'ignoreFailures');
+  await testController.expandTestItems(/test.spec/);
+  const testItems = testController.findTestItems(/fail/);
+  await vscode.commands.executeCommand('pw.extension.command.toggleQuarantine', ...testItems);
+  const testRun = await testController.run();
+
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ◯ should fail [2:0]
+  `);
+  await expect(testRun).toHaveOutput('Quarantined test "should fail" failed, the failure is not reported.');
+});
+
+test('should un-quarantine tests', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      test('should pass', async () => {});
+    `,
+  });
+
+  await testController.expandTestItems(/test.spec/);
+  const testItems = testController.findTestItems(/pass/);
+  await vscode.commands.executeCommand('pw.extension.command.toggleQuarantine', ...testItems);
+  await vscode.commands.executeCommand('pw.extension.command.toggleQuarantine', ...testItems);
+  expect(vscode.context.workspaceState.get('pw.workspace-settings').quarantine).toEqual([]);
+  expect(testItems[0].tags).toEqual([]);
+
+  await testController.run();
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ✅ should pass [2:0]
+  `);
+});
@@ -0,0 +1,98 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { expect, test } from './utils';
+
+const flakyTest = `
+  import { test, expect } from '@playwright/test';
+  import fs from 'fs';
+  import path from 'path';
+  test('should flake', async () => {
+    const marker = path.join(__dirname, '..', 'marker');
+    const exists = fs.existsSync(marker);
+    fs.writeFileSync(marker, '');
+    expect(exists).toBe(true);
+  });
+`;
+
+test('should repeat tests and report flaky ones as passed', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests', workers: 1 }`,
+    'tests/test.spec.ts': flakyTest,
+  });
+
+  const webView = vscode.webViews.get('pw.extension.settingsView')!;
+  await webView.getByRole('spinbutton', { name: 'Run N times' }).fill('3');
+  await webView.getByRole('spinbutton', { name: 'Run N times' }).press('Enter');
+  await expect.poll(() => vscode.workspace.getConfiguration('playwright').get('repeatEach')).toBe(3);
+
+  const testRun = await testController.run();
+  await expect(testRun).toHaveOutput('Test "should flake" is flaky: 1 of 3 runs failed.');
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ✅ should flake [flaky 50%] [4:0]
+  `);
+  // Test servers run every test once, the extension repeats the run.
+  const runs = vscode.connectionLog.filter(e => e.method === 'runTests');
+  expect(runs).toHaveLength(3);
+  for (const run of runs)
+    expect(run.params).not.toHaveProperty('repeatEach');
+});
+
+test('should retry failed tests', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': flakyTest,
+  });
+
+  const webView = vscode.webViews.get('pw.extension.settingsView')!;
+  await webView.getByRole('spinbutton', { name: 'Retries' }).fill('1');
+  await webView.getByRole('spinbutton', { name: 'Retries' }).press('Enter');
+  await expect.poll(() => vscode.workspace.getConfiguration('playwright').get('retries')).toBe(1);
+
+  const testRun = await testController.run();
+  await expect(testRun).toHaveOutput('Test "should flake" is flaky: 1 of 2 runs failed.');
+  // Only the failed test is run again.
+  const runs = vscode.connectionLog.filter(e => e.method === 'runTests');
+  expect(runs.map(r => r.params.testIds)).toEqual([undefined, [expect.any(String)]]);
+  for (const run of runs)
+    expect(run.params).not.toHaveProperty('retries');
+  expect(vscode.context.workspaceState.get('pw.test-history')[0].entries.map((e: any) => [e.status, e.retry])).toEqual([['failed', 0], ['passed', 1]]);
+});
+
+test('should report a retried test once, as flaky', async ({ activate }, testInfo) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': flakyTest,
+  });
+
+  const webView = vscode.webViews.get('pw.extension.settingsView')!;
+  await webView.getByRole('spinbutton', { name: 'Retries' }).fill('1');
+  await webView.getByRole('spinbutton', { name: 'Retries' }).press('Enter');
+  await expect.poll(() => vscode.workspace.getConfiguration('playwright').get('retries')).toBe(1);
+
+  await testController.run();
+  expect(vscode.treeDataProviders.get('pw.extension.failureGroupsView').getChildren()).toEqual([]);
+
+  vscode.window.mockSaveDialog = async () => vscode.Uri.file(testInfo.outputPath('report.html'));
+  await vscode.commands.executeCommand('pw.extension.command.exportRunReport');
+  const report = JSON.parse(await fs.promises.readFile(testInfo.outputPath('report.json'), 'utf8'));
+  expect(report.stats).toEqual(expect.objectContaining({ expected: 0, unexpected: 0, flaky: 1, skipped: 0 }));
+  expect(report.suites[0].specs).toHaveLength(1);
+  expect(report.suites[0].specs[0].tests[0].results.map((r: any) => [r.status, r.retry])).toEqual([['failed', 0], ['passed', 1]]);
+});
@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test, escapedPathSep } from './utils';
+
+test('should split files between shards', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test-1.spec.ts': `
+      import { test } from '@playwright/test';
+      test('one', async () => {});
+    `,
+    'tests/test-2.spec.ts': `
+      import { test } from '@playwright/test';
+      test('two', async () => {});
+    `,
+  });
+
+  const profile = testController.runProfiles.find(p => p.label === 'Run sharded')!;
+  const testRun = await profile.run();
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      - ✅ test-1.spec.ts
+        - ✅ one [2:0]
+      - ✅ test-2.spec.ts
+        - ✅ two [2:0]
+  `);
+  expect(testRun.renderLog()).toContain('one [2:0]');
+  expect(testRun.renderLog()).toContain('two [2:0]');
+
+  const runs = vscode.connectionLog.filter(e => e.method === 'runTests');
+  expect(runs.map(r => r.params.locations).sort()).toEqual([
+    [expect.stringContaining(`tests${escapedPathSep}test-1\\.spec\\.ts`)],
+    [expect.stringContaining(`tests${escapedPathSep}test-2\\.spec\\.ts`)],
+  ]);
+});
+
+test('should split tests between shards', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      test('one', async () => {});
+      test('two', async () => {});
+      test('three', async () => {});
+    `,
+  });
+
+  await vscode.workspace.getConfiguration('playwright').update('shardCount', 3);
+  await testController.expandTestItems(/test.spec/);
+  const testItems = testController.findTestItems(/one|two|three/);
+  expect(testItems).toHaveLength(3);
+  const profile = testController.runProfiles.find(p => p.label === 'Run sharded')!;
+  await profile.run(testItems);
+
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      - ✅ test.spec.ts
+        - ✅ one [2:0]
+        - ✅ three [4:0]
+        - ✅ two [3:0]
+  `);
+  const runs = vscode.connectionLog.filter(e => e.method === 'runTests');
+  expect(runs).toHaveLength(3);
+  for (const run of runs)
+    expect(run.params.testIds).toHaveLength(1);
+});
+
+test('should begin and end sharded run once', async ({ activate }) => {
+  const { testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test-1.spec.ts': `
+      import { test } from '@playwright/test';
+      test('one', async () => {});
+    `,
+    'tests/test-2.spec.ts': `
+      import { test } from '@playwright/test';
+      test('two', async () => {
+        await new Promise(f => setTimeout(f, 1000));
+      });
+    `,
+  });
+
+  const profile = testController.runProfiles.find(p => p.label === 'Run sharded')!;
+  const testRun = await profile.run();
+  // Tests that finished in one shard are not enqueued again when another shard begins.
+  expect(testRun.renderLog()).toBe(`
+    tests > test-1.spec.ts > one [2:0]
+      enqueued
+      started
+      passed
+    tests > test-2.spec.ts > two [2:0]
+      enqueued
+      started
+      passed
+  `);
+});
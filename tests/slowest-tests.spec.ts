@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { expect, test } from './utils';
+
+function treeItems(provider: any, node?: any): any[] {
+  return provider.getChildren(node).map((child: any) => ({ ...provider.getTreeItem(child), children: treeItems(provider, child) }));
+}
+
+test('should rank tests and steps by duration', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      test('should be fast', async () => {});
+      test('should be slow', async () => {
+        await test.step('short step', async () => {});
+        await test.step('long step', async () => {
+          await new Promise(f => setTimeout(f, 500));
+        });
+      });
+    `,
+  });
+
+  await testController.run();
+  const [latestRun, acrossRuns] = treeItems(vscode.treeDataProviders.get('pw.extension.slowestTestsView'));
+  expect(latestRun.label).toBe('Latest run');
+  expect(latestRun.children.map((item: any) => item.label)).toEqual(['should be slow', 'should be fast']);
+  const [slowTest] = latestRun.children;
+  expect(slowTest.description).toMatch(/^\d+ms$/);
+  expect(slowTest.command.arguments[0].toString()).toContain('test.spec.ts');
+  expect(slowTest.command.arguments[1].selection.start.line).toBe(3);
+  const steps = slowTest.children.map((item: any) => item.label);
+  expect(steps.indexOf('long step')).toBeLessThan(steps.indexOf('short step'));
+
+  expect(acrossRuns.label).toBe('Across runs');
+  expect(acrossRuns.children.map((item: any) => [item.label, item.description.replace(/^\d+ms/, 'Xms')])).toEqual([
+    ['should be slow', 'Xms average over 1 runs'],
+    ['should be fast', 'Xms average over 1 runs'],
+  ]);
+});
+
+test('should flag duration regressions', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      import fs from 'fs';
+      import path from 'path';
+      test('should slow down', async () => {
+        const marker = path.join(__dirname, '..', 'marker');
+        const exists = fs.existsSync(marker);
+        fs.writeFileSync(marker, '');
+        await new Promise(f => setTimeout(f, exists ? 1000 : 200));
+      });
+    `,
+  });
+
+  const slowestTests = () => treeItems(vscode.treeDataProviders.get('pw.extension.slowestTestsView'))[0].children[0];
+
+  await testController.run();
+  expect(slowestTests().iconPath).toBeUndefined();
+
+  await testController.run();
+  expect(slowestTests().iconPath.id).toBe('warning');
+  expect(slowestTests().description).toMatch(/^\d+ms · \+\d+% since previous run$/);
+
+  await vscode.workspace.getConfiguration('playwright').update('durationRegressionThreshold', 10000);
+  expect(slowestTests().iconPath).toBeUndefined();
+});
+
+test('should list a repeated test once, compared with the previous run', async ({ activate }, testInfo) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      import fs from 'fs';
+      import path from 'path';
+      test('should slow down', async () => {
+        const marker = path.join(__dirname, '..', 'marker');
+        const exists = fs.existsSync(marker);
+        await new Promise(f => setTimeout(f, exists ? 1000 : 200));
+      });
+    `,
+  });
+
+  const latestRun = () => treeItems(vscode.treeDataProviders.get('pw.extension.slowestTestsView'))[0].children;
+
+  await testController.run();
+  await vscode.workspace.getConfiguration('playwright').update('repeatEach', 3);
+  await fs.promises.writeFile(testInfo.outputPath('marker'), '');
+  await testController.run();
+  expect(latestRun().map((item: any) => item.label)).toEqual(['should slow down']);
+  // Iterations of the same run are not compared with each other.
+  expect(latestRun()[0].description).toMatch(/^\d+ms · \+\d+% since previous run$/);
+});
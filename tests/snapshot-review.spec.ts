@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { expect, singleWebViewByPanelType, test } from './utils';
+
+test('should accept actual screenshot as the new baseline', async ({ activate }, testInfo) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'color.txt': 'red',
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      import fs from 'fs';
+      import path from 'path';
+      test('should match', async ({ page }) => {
+        const color = fs.readFileSync(path.join(__dirname, '..', 'color.txt'), 'utf8');
+        await page.setContent('<div style="width: 100px; height: 100px; background: ' + color + '"></div>');
+        await expect(page).toHaveScreenshot('page.png');
+      });
+    `,
+  });
+
+  // First run writes the missing baseline.
+  await testController.run();
+  const snapshotDir = testInfo.outputPath('tests', 'test.spec.ts-snapshots');
+  const [baseline] = await fs.promises.readdir(snapshotDir);
+  const baselinePath = path.join(snapshotDir, baseline);
+
+  await fs.promises.writeFile(testInfo.outputPath('color.txt'), 'blue');
+  await testController.run();
+
+  await vscode.commands.executeCommand('pw.extension.command.reviewSnapshots');
+  const webView = await singleWebViewByPanelType(vscode, 'playwright.snapshotReview');
+  const snapshots = webView.getByRole('listitem');
+  await expect(snapshots).toHaveCount(1);
+  await expect(snapshots).toContainText('should match › page.png');
+  await expect(snapshots.getByRole('combobox', { name: 'Comparison mode' })).toHaveValue('slider');
+
+  await snapshots.getByRole('combobox', { name: 'Comparison mode' }).selectOption('side-by-side');
+  await expect(snapshots.getByText('Expected')).toBeVisible();
+  await expect(snapshots.getByText('Actual')).toBeVisible();
+  await expect(snapshots.getByRole('slider', { name: 'Position' })).toBeHidden();
+
+  const actualPath = testInfo.outputPath('test-results', 'test-should-match', 'page-actual.png');
+  await snapshots.getByRole('button', { name: 'Accept' }).click();
+  await expect(webView.getByText('No snapshot mismatches to review.')).toBeVisible();
+  expect(await fs.promises.readFile(baselinePath)).toEqual(await fs.promises.readFile(actualPath));
+
+  await testController.run();
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ✅ should match [4:0]
+  `);
+});
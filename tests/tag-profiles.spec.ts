@@ -0,0 +1,115 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from './utils';
+
+const taggedTests = `
+  import { test } from '@playwright/test';
+  test('smoke test @smoke', async () => {});
+  test('slow test', { tag: '@slow' }, async () => {});
+  test('plain test', async () => {});
+`;
+
+test('should create run profiles for discovered tags', async ({ activate }) => {
+  const { testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': taggedTests,
+  });
+
+  await testController.expandTestItems(/test.spec/);
+  await expect.poll(() => testController.runProfiles.map(p => p.label)).toEqual([
+    'playwright-run',
+    'playwright-debug',
+    'Run sharded',
+    'Run with coverage',
+    'Run tests with tags…',
+    'Run tests without tags…',
+    'Run @slow',
+    'Run @smoke',
+  ]);
+});
+
+test('should run tests with a tag', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': taggedTests,
+  });
+
+  await testController.expandTestItems(/test.spec/);
+  await expect.poll(() => testController.runProfiles.find(p => p.label === 'Run @smoke')).toBeTruthy();
+  const profile = testController.runProfiles.find(p => p.label === 'Run @smoke')!;
+  const testRun = await profile.run();
+
+  await expect(testRun).toHaveOutput('1 passed');
+  await expect(vscode).toHaveConnectionLog([
+    { method: 'listFiles', params: {} },
+    { method: 'listTests', params: expect.anything() },
+    { method: 'runGlobalSetup', params: {} },
+    { method: 'runTests', params: expect.objectContaining({
+      locations: [],
+      grep: '(?:^| )(?:@smoke)(?: |$)',
+    }) },
+  ]);
+});
+
+test('should run tests without picked tags', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': taggedTests,
+  });
+
+  await testController.expandTestItems(/test.spec/);
+  await expect.poll(() => testController.runProfiles.find(p => p.label === 'Run @slow')).toBeTruthy();
+  vscode.window.mockQuickPick = async (items: { label: string }[]) => items.filter(i => i.label === '@slow');
+  const profile = testController.runProfiles.find(p => p.label === 'Run tests without tags…')!;
+  const testRun = await profile.run();
+
+  await expect(testRun).toHaveOutput('2 passed');
+  await expect(vscode).toHaveConnectionLog([
+    { method: 'listFiles', params: {} },
+    { method: 'listTests', params: expect.anything() },
+    { method: 'runGlobalSetup', params: {} },
+    { method: 'runTests', params: expect.objectContaining({
+      locations: [],
+      grepInvert: '(?:^| )(?:@slow)(?: |$)',
+    }) },
+  ]);
+});
+
+test('should offer the tags of tests that are not listed yet', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': taggedTests,
+    'tests/other.spec.ts': `
+      import { test } from '@playwright/test';
+      test('other test', { tag: '@other' }, async () => {});
+    `,
+  });
+
+  await testController.expandTestItems(/test.spec/);
+  await expect.poll(() => testController.runProfiles.find(p => p.label === 'Run @slow')).toBeTruthy();
+  let offeredTags: string[] = [];
+  vscode.window.mockQuickPick = async (items: { label: string }[]) => {
+    offeredTags = items.map(i => i.label);
+    return items.filter(i => i.label === '@other');
+  };
+  const profile = testController.runProfiles.find(p => p.label === 'Run tests with tags…')!;
+  const testRun = await profile.run();
+
+  expect(offeredTags).toEqual(['@other', '@slow', '@smoke']);
+  await expect(testRun).toHaveOutput('1 passed');
+  expect(testController.runProfiles.map(p => p.label)).toContain('Run @other');
+});
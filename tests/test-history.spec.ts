@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from './utils';
+
+const flakyTest = `
+  import { test, expect } from '@playwright/test';
+  import fs from 'fs';
+  import path from 'path';
+  test('should flake', async () => {
+    const marker = path.join(__dirname, '..', 'marker');
+    const exists = fs.existsSync(marker);
+    fs.writeFileSync(marker, '');
+    expect(exists).toBe(false);
+  });
+  test('should pass', async () => {});
+`;
+
+test('should record test results in history', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': flakyTest,
+  });
+
+  await testController.run();
+  await testController.run();
+
+  const history = vscode.context.workspaceState.get('pw.test-history');
+  const entries = (title: string) => history.find((r: any) => r.title === title).entries;
+  expect(entries('should flake').map((e: any) => [e.status, e.ok])).toEqual([['passed', true], ['failed', false]]);
+  expect(entries('should flake')[1].errorHash).toMatch(/^[0-9a-f]{8}$/);
+  expect(entries('should pass').map((e: any) => [e.status, e.ok])).toEqual([['passed', true], ['passed', true]]);
+});
+
+test('should show flakiness in the test tree', async ({ activate }) => {
+  const { testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': flakyTest,
+  });
+
+  await testController.run();
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ✅ should flake [4:0]
+        - ✅ should pass [10:0]
+  `);
+
+  await testController.run();
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ❌ should flake [flaky 100%] [4:0]
+        - ✅ should pass [10:0]
+  `);
+});
+
+test('should show the timeline when hovering the test', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': flakyTest,
+  });
+
+  await testController.run();
+  await testController.run();
+
+  await vscode.openEditors('**/test.spec.ts');
+  const document = vscode.window.activeTextEditor.document;
+  expect(vscode.languages.emitHoverEvent('typescript', document, new vscode.Position(4, 4)).contents.render()).toBe('Recent runs: ✓✗ (flaky 100%)');
+  expect(vscode.languages.emitHoverEvent('typescript', document, new vscode.Position(10, 4)).contents.render()).toBe('Recent runs: ✓✓');
+});
+
+test('should prune history of removed tests', async ({ activate }) => {
+  const { vscode, testController, workspaceFolder } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': flakyTest,
+  });
+
+  await testController.run();
+  const titles = () => vscode.context.workspaceState.get('pw.test-history').map((r: any) => r.title);
+  expect(titles()).toEqual(['should flake', 'should pass']);
+
+  await Promise.all([
+    new Promise(f => testController.onDidChangeTestItem(f)),
+    workspaceFolder.changeFile('tests/test.spec.ts', `
+      import { test } from '@playwright/test';
+      test('should pass', async () => {});
+    `),
+  ]);
+  await expect.poll(titles).toEqual(['should pass']);
+});
+
+test('should clear test history', async ({ activate }) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': flakyTest,
+  });
+
+  await testController.run();
+  await testController.run();
+  await vscode.commands.executeCommand('pw.extension.command.clearTestHistory');
+
+  expect(vscode.context.workspaceState.get('pw.test-history')).toEqual([]);
+  await expect(testController).toHaveTestTree(`
+    -   tests
+      -   test.spec.ts
+        - ❌ should flake [4:0]
+        - ✅ should pass [10:0]
+  `);
+});
@@ -0,0 +1,63 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from './utils';
+
+function renderSteps(provider: any, node?: any, indent = ''): string[] {
+  return provider.getChildren(node).flatMap((child: any) => {
+    const item = provider.getTreeItem(child);
+    const line = `${indent}${item.iconPath.id === 'pass' ? '✅' : '❌'} ${item.label} [${item.command?.arguments[1].selection.start.line}]`;
+    return [line, ...renderSteps(provider, child, indent + '  ')];
+  });
+}
+
+test('should show step hierarchy of the last run', async ({ vscode, activate }) => {
+  const { testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should pass', async () => {
+        await test.step('outer', async () => {
+          await test.step('inner', async () => {
+            expect(1).toBe(1);
+          });
+        });
+      });
+      test('should fail', async () => {
+        await test.step('passing step', async () => {});
+        await test.step('failing step', async () => {
+          expect(1).toBe(2);
+        });
+      });
+      test('no steps', async () => {});
+    `,
+  });
+
+  await testController.run();
+  const provider = vscode.treeDataProviders.get('pw.extension.testStepsView');
+  expect(renderSteps(provider)).toEqual([
+    '✅ should pass [2]',
+    '  ✅ outer [3]',
+    '    ✅ inner [4]',
+    '❌ should fail [9]',
+    '  ✅ passing step [10]',
+    '  ❌ failing step [11]',
+  ]);
+
+  const failingStep = provider.getTreeItem(provider.getChildren(provider.getChildren()[1])[1]);
+  expect(failingStep.description).toMatch(/^\d+ms · Error: expect\(received\)\.toBe\(expected\)/);
+  expect(failingStep.tooltip).toContain('Expected: 2');
+});
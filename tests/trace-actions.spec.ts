@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, selectTestItem, test } from './utils';
+
+function renderActions(provider: any, node?: any, indent = ''): string[] {
+  return provider.getChildren(node).flatMap((child: any) => {
+    const item = provider.getTreeItem(child);
+    const line = `${indent}${item.iconPath.id === 'pass' ? '✅' : '❌'} ${item.label} [${item.command?.arguments[1].selection.start.line}]`;
+    return [line, ...renderActions(provider, child, indent + '  ')];
+  });
+}
+
+test('should sync trace actions with the editor', async ({ vscode, activate }) => {
+  const { testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests', use: { trace: 'on' } }`,
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should fail', async () => {
+        await test.step('outer', async () => {
+          expect(1).toBe(1);
+        });
+        expect(1).toBe(2);
+      });
+    `,
+  });
+
+  await testController.run();
+  await testController.expandTestItems(/test.spec/);
+  selectTestItem(testController.findTestItems(/should fail/)[0]);
+
+  const provider = vscode.treeDataProviders.get('pw.extension.traceActionsView');
+  await expect.poll(() => renderActions(provider)).toEqual([
+    '✅ outer [3]',
+    '  ✅ Expect "toBe" [4]',
+    '❌ Expect "toBe" [6]',
+  ]);
+
+  const [editor] = await vscode.openEditors('**/test.spec.ts');
+  await expect.poll(() => editor.renderDecorations('  ')).toContain(`[3:0 - 3:0]: decorator traceAction {"after":{"contentText":" — ✔ Xms"}}`);
+  expect(editor.renderDecorations('  ')).toContain(`[6:0 - 6:0]: decorator traceAction {"after":{"contentText":" — ✘ Xms"}}`);
+
+  vscode.window.didChangeTextEditorSelection(editor, new vscode.Selection(4, 0, 4, 0));
+  const [selected] = vscode.treeViews.get('pw.extension.traceActionsView')!.selection;
+  expect(provider.getTreeItem(selected).label).toBe('Expect "toBe"');
+  expect(provider.getTreeItem(provider.getParent(selected)).label).toBe('outer');
+});
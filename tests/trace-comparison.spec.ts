@@ -0,0 +1,57 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { expect, singleWebViewByPanelType, test } from './utils';
+
+test('should compare the failing trace with the baseline', async ({ activate }, testInfo) => {
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests', use: { trace: 'on' } }`,
+    'expected.txt': '1',
+    'tests/test.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      import fs from 'fs';
+      import path from 'path';
+      test('should pass', async () => {
+        const expected = fs.readFileSync(path.join(__dirname, '..', 'expected.txt'), 'utf8');
+        await test.step('outer', async () => {
+          expect(1).toBe(1);
+        });
+        if (expected === '1')
+          await test.step('only when passing', async () => {});
+        expect(1).toBe(Number(expected));
+      });
+    `,
+  });
+
+  await testController.run();
+  await testController.expandTestItems(/test.spec/);
+  const [testItem] = testController.findTestItems(/should pass/);
+  await vscode.commands.executeCommand('pw.extension.command.setTraceBaseline', testItem);
+
+  await fs.promises.writeFile(testInfo.outputPath('expected.txt'), '2');
+  await testController.run();
+  await vscode.commands.executeCommand('pw.extension.command.compareTraces', testItem);
+  const webView = await singleWebViewByPanelType(vscode, 'playwright.traceComparison');
+  const rows = webView.locator('#actions tr');
+  await expect(rows).toHaveCount(5);
+  await expect(rows.nth(1)).toHaveClass('row-same');
+  await expect(rows.nth(1)).toContainText('outer');
+  await expect(rows.nth(3)).toHaveClass('row-removed');
+  await expect(rows.nth(3)).toContainText('only when passing');
+  await expect(rows.nth(4)).toHaveClass('row-changed');
+  await expect(rows.nth(4).locator('td').nth(1)).toContainText('expect(received).toBe(expected)');
+});
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { enableConfigs, expect, selectConfig, selectTestItem, test, traceViewerInfo } from './utils';
+import { enableConfigs, expect, selectConfig, selectTestItem, singleWebViewByPanelType, test, traceViewerInfo } from './utils';
 
 test.skip(({ showTrace }) => !showTrace);
 
@@ -179,3 +179,34 @@ test('should open new trace viewer when another test config is selected', async
 
   expect(serverUrlPrefix2).not.toBe(serverUrlPrefix1);
 });
+
+test('should embed trace viewer in a webview panel', async ({ activate, showTrace }) => {
+  test.skip(showTrace !== 'embedded');
+  const { vscode, testController } = await activate({
+    'playwright.config.js': `module.exports = { testDir: 'tests' }`,
+    'tests/test.spec.ts': `
+      import { test } from '@playwright/test';
+      test('should pass', async () => {});
+    `,
+  });
+
+  await testController.run();
+  await testController.expandTestItems(/test.spec/);
+  selectTestItem(testController.findTestItems(/pass/)[0]);
+
+  await expect.poll(() => traceViewerInfo(vscode)).toMatchObject({
+    type: 'embedded',
+    traceFile: expect.stringContaining('pass'),
+    visible: true,
+  });
+  const webview = await singleWebViewByPanelType(vscode, 'playwright.traceviewer.view');
+  const { serverUrlPrefix } = (await traceViewerInfo(vscode))!;
+  await expect(webview.locator('iframe')).toHaveAttribute('src', expect.stringContaining(serverUrlPrefix!));
+  await expect(webview.frameLocator('iframe').getByText('should pass')).toBeVisible();
+
+  await webview.close();
+  await expect.poll(() => traceViewerInfo(vscode)).toMatchObject({
+    traceFile: undefined,
+    visible: false,
+  });
+});
@@ -47,7 +47,7 @@ type TestFixtures = {
 
 export type WorkerOptions = {
   showBrowser: boolean;
-  showTrace?: boolean;
+  showTrace?: 'spawn' | 'embedded';
   vsCodeVersion: number;
 };
 
@@ -153,6 +153,8 @@ export const test = baseTest.extend<TestFixtures, WorkerOptions>({
         configuration.update('reuseBrowser', true);
       if (showTrace) {
         configuration.update('showTrace', true);
+        if (showTrace === 'embedded')
+          configuration.update('embeddedTraceViewer', true);
 
         // prevents spawn trace viewer process from opening app and browser
         vscode.env.remoteName = 'ssh-remote';
@@ -261,7 +263,7 @@ export async function singleWebViewByPanelType(vscode: VSCode, viewType: string)
   return vscode.webViewsByPanelType(viewType)[0];
 }
 
-export async function traceViewerInfo(vscode: VSCode): Promise<{ type: 'spawn', serverUrlPrefix?: string, testConfigFile: string, traceFile: string } | undefined> {
+export async function traceViewerInfo(vscode: VSCode): Promise<{ type: 'spawn' | 'embedded', serverUrlPrefix?: string, testConfigFile: string, traceFile: string, visible: boolean } | undefined> {
   return await vscode.extensions[0].traceViewerInfoForTest();
 }
 